@@ -0,0 +1,42 @@
+/**
+ * Writes a group's users, jobs, snapshots, stat history and settings to one JSON
+ * file (see LeetBoardBackup in src/types.ts). Reads are public, except for jobs'
+ * notes and contacts: set LEETBOARD_EMAIL and LEETBOARD_PASSWORD for an admin to
+ * back those up too.
+ * --group=<id> backs up another group instead of the default one.
+ *
+ * Usage: npm run backup -- [--out=leetboard-backup-<group>.json] [--group=<id>]
+ */
+import { writeFile } from 'node:fs/promises';
+import { exportBackup } from '../src/utils/backupUtils';
+import { signInFromEnv } from '../src/utils/authUtils';
+import { DEFAULT_GROUP_ID, setActiveGroupId } from '../src/utils/groupUtils';
+
+const parseArgs = (argv: string[]) => {
+    const outArg = argv.find(arg => arg.startsWith('--out='));
+    const groupArg = argv.find(arg => arg.startsWith('--group='));
+    const groupId = groupArg ? groupArg.split('=')[1] : DEFAULT_GROUP_ID;
+    return {
+        outFile: outArg ? outArg.split('=')[1] : `leetboard-backup-${groupId}.json`,
+        groupId,
+    };
+};
+
+const main = async () => {
+    const { outFile, groupId } = parseArgs(process.argv.slice(2));
+    setActiveGroupId(groupId);
+    if (!(await signInFromEnv())) {
+        console.warn('⚠️ LEETBOARD_EMAIL/LEETBOARD_PASSWORD not set; jobs are backed up without their notes and contacts');
+    }
+
+    const backup = await exportBackup();
+    await writeFile(outFile, JSON.stringify(backup, null, 2) + '\n');
+    console.log(`✅ Wrote ${outFile}`);
+};
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error('Backup failed:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,60 @@
+/**
+ * Writes calendar feeds (.ics) of job interviews, assessment deadlines and
+ * follow-ups, meant to be run from cron into a directory your host serves.
+ *
+ * Every run overwrites the same files, one {username}.ics per tracked user plus
+ * all.ics for the whole group, so a calendar subscribed to a file's URL picks
+ * up changes on its next refresh. Jobs are readable by anyone, so no sign-in is needed.
+ * --group=<id> exports another group's jobs instead of the default one.
+ *
+ * Usage: npm run export-calendars -- [--out=calendars] [--group=<id>]
+ */
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { loadUsers } from '../src/utils/userUtils';
+import { loadJobs, loadPipeline } from '../src/utils/jobUtils';
+import { buildJobCalendar } from '../src/utils/calendarUtils';
+import { DEFAULT_GROUP_ID, loadGroup, setActiveGroupId } from '../src/utils/groupUtils';
+
+const parseArgs = (argv: string[]) => {
+    const outArg = argv.find(arg => arg.startsWith('--out='));
+    const groupArg = argv.find(arg => arg.startsWith('--group='));
+    return {
+        outDir: outArg ? outArg.split('=')[1] : 'calendars',
+        groupId: groupArg ? groupArg.split('=')[1] : DEFAULT_GROUP_ID,
+    };
+};
+
+const main = async () => {
+    const { outDir, groupId } = parseArgs(process.argv.slice(2));
+    setActiveGroupId(groupId);
+
+    const group = await loadGroup(groupId);
+    if (!group) throw new Error(`Group ${groupId} not found`);
+
+    // Closed stages are left out of the feeds
+    await loadPipeline();
+    const [users, jobs] = await Promise.all([loadUsers(), loadJobs()]);
+    await mkdir(outDir, { recursive: true });
+
+    const feeds = [
+        ...users.map(user => ({
+            file: `${user.username}.ics`,
+            name: `${user.username} job dates`,
+            jobs: jobs.filter(job => job.username === user.username),
+        })),
+        { file: 'all.ics', name: `${group.name} job dates`, jobs },
+    ];
+
+    for (const feed of feeds) {
+        await writeFile(join(outDir, feed.file), buildJobCalendar(feed.jobs, feed.name));
+        console.log(`📅 ${feed.file}: ${feed.jobs.length} job(s)`);
+    }
+};
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error('Calendar export failed:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,94 @@
+/**
+ * Headless snapshot freezer, meant to be run from cron.
+ *
+ * Captures any missing weekly/monthly/yearly baselines for the current periods
+ * (plus today's statHistory sample) without anyone having to open the app.
+ * With --wait-for-boundary it first sleeps until the next Los Angeles period
+ * boundary, if one is at most --max-wait-minutes away (default 10), so the
+ * baseline lands right at the reset instead of whenever the job happens to run.
+ *
+ * Writes need a linked, approved account: set LEETBOARD_EMAIL and LEETBOARD_PASSWORD.
+ * Users missing from an existing baseline are added to it. Only an admin account
+ * records everyone's sample; a member account records its own.
+ * --group=<id> freezes another group's board instead of the default one
+ * (the account has to be a member of it).
+ *
+ * Usage: npm run freeze-snapshots -- [--wait-for-boundary] [--max-wait-minutes=10] [--group=<id>]
+ */
+import { loadUsers } from '../src/utils/userUtils';
+import { fetchAllUserStats } from '../src/utils/statsUtils';
+import { ensureSnapshotsForCurrentPeriods } from '../src/utils/snapshotUtils';
+import { recordDailySamples } from '../src/utils/historyUtils';
+import { getTimeUntilNextReset } from '../src/utils/dateUtils';
+import { loadScoringRules } from '../src/utils/scoringUtils';
+import { getAuthState, signInFromEnv } from '../src/utils/authUtils';
+import { DEFAULT_GROUP_ID, loadMembership, setActiveGroupId } from '../src/utils/groupUtils';
+import { SnapshotPeriod } from '../src/types';
+
+const PERIODS: SnapshotPeriod[] = ['weekly', 'monthly', 'yearly'];
+
+const parseArgs = (argv: string[]) => {
+    const maxWaitArg = argv.find(arg => arg.startsWith('--max-wait-minutes='));
+    const groupArg = argv.find(arg => arg.startsWith('--group='));
+    return {
+        waitForBoundary: argv.includes('--wait-for-boundary'),
+        maxWaitMs: (maxWaitArg ? Number(maxWaitArg.split('=')[1]) : 10) * 60 * 1000,
+        groupId: groupArg ? groupArg.split('=')[1] : DEFAULT_GROUP_ID,
+    };
+};
+
+const waitForNextBoundary = async (maxWaitMs: number) => {
+    const waitMs = Math.min(...PERIODS.map(period => getTimeUntilNextReset(period)));
+    if (waitMs > maxWaitMs) {
+        console.log(`⏭️ Next period boundary is ${Math.round(waitMs / 60000)}m away, not waiting`);
+        return;
+    }
+    console.log(`⏳ Waiting ${Math.round(waitMs / 1000)}s for the next period boundary`);
+    // Land just past midnight so the period keys have already rolled over
+    await new Promise(resolve => setTimeout(resolve, waitMs + 1000));
+};
+
+const main = async () => {
+    const { waitForBoundary, maxWaitMs, groupId } = parseArgs(process.argv.slice(2));
+    setActiveGroupId(groupId);
+
+    if (waitForBoundary) {
+        await waitForNextBoundary(maxWaitMs);
+    }
+
+    if (!await signInFromEnv()) {
+        console.warn('⚠️ LEETBOARD_EMAIL/LEETBOARD_PASSWORD not set, writes will be rejected by the security rules');
+    }
+
+    const member = await loadMembership(groupId, getAuthState().account);
+
+    await loadScoringRules();
+    const users = await loadUsers();
+    if (users.length === 0) {
+        console.log('No users to snapshot');
+        return;
+    }
+
+    const currentStats = await fetchAllUserStats(users, true);
+    const snapshots = await ensureSnapshotsForCurrentPeriods(currentStats, 'scheduler');
+    if (member) await recordDailySamples(currentStats, member);
+
+    PERIODS.forEach(period => {
+        const snapshot = snapshots[period];
+        if (!snapshot) {
+            console.error(`❌ ${period}: no snapshot`);
+        } else {
+            const timing = snapshot.capturedOnTime === undefined
+                ? 'timing unknown'
+                : snapshot.capturedOnTime ? 'on time' : `late by ${Math.round((snapshot.captureDelayMs ?? 0) / 60000)}m`;
+            console.log(`✅ ${period} ${snapshot.periodKey}: ${snapshot.users.length} users, ${timing} (${snapshot.source ?? 'app'})`);
+        }
+    });
+};
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error('Snapshot freezer failed:', error);
+        process.exit(1);
+    });
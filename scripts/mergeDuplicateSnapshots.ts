@@ -0,0 +1,21 @@
+/**
+ * One-off cleanup: merges duplicate leaderboardSnapshots (same period and
+ * periodKey) and moves legacy random-ID documents to "{period}_{periodKey}".
+ * Safe to re-run; a clean collection is left untouched.
+ * Deleting snapshots needs an admin account: set LEETBOARD_EMAIL and LEETBOARD_PASSWORD.
+ *
+ * Usage: npm run merge-snapshots
+ */
+import { mergeDuplicateSnapshots } from '../src/utils/snapshotUtils';
+import { signInFromEnv } from '../src/utils/authUtils';
+
+signInFromEnv()
+    .then(() => mergeDuplicateSnapshots())
+    .then(({ merged, removed }) => {
+        console.log(`✅ Merged ${merged} snapshot group(s), removed ${removed} duplicate document(s)`);
+        process.exit(0);
+    })
+    .catch(error => {
+        console.error('Snapshot cleanup failed:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,62 @@
+/**
+ * Restores a backup written by `npm run backup`. The file is validated against the
+ * stored types first and nothing is written when it has errors.
+ *
+ * --mode=merge (default) overwrites documents that are in the file and keeps the rest;
+ * --mode=replace also deletes every document the file doesn't have.
+ * --dry-run only reports what would change. Run it first.
+ * --group=<id> restores into another group than the one the backup came from.
+ *
+ * Writing needs an admin account: set LEETBOARD_EMAIL and LEETBOARD_PASSWORD.
+ * With VITE_FIREBASE_USE_EMULATORS=true everything goes to the local emulators instead.
+ *
+ * Usage: npm run restore -- <file> [--mode=merge|replace] [--dry-run] [--group=<id>]
+ */
+import { readFile } from 'node:fs/promises';
+import { RestoreMode } from '../src/types';
+import { restoreBackup, validateBackup } from '../src/utils/backupUtils';
+import { signInFromEnv } from '../src/utils/authUtils';
+import { setActiveGroupId } from '../src/utils/groupUtils';
+
+const parseArgs = (argv: string[]) => {
+    const modeArg = argv.find(arg => arg.startsWith('--mode='));
+    const groupArg = argv.find(arg => arg.startsWith('--group='));
+    const mode = modeArg ? modeArg.split('=')[1] : 'merge';
+    if (mode !== 'merge' && mode !== 'replace') throw new Error(`Unknown mode "${mode}"; use merge or replace`);
+    return {
+        file: argv.find(arg => !arg.startsWith('--')),
+        mode: mode as RestoreMode,
+        dryRun: argv.includes('--dry-run'),
+        groupId: groupArg?.split('=')[1],
+    };
+};
+
+const main = async () => {
+    const { file, mode, dryRun, groupId } = parseArgs(process.argv.slice(2));
+    if (!file) throw new Error('Pass the backup file to restore');
+
+    const { backup, errors, warnings } = validateBackup(JSON.parse(await readFile(file, 'utf8')));
+    warnings.forEach(warning => console.warn(`⚠️ ${warning}`));
+    if (!backup) {
+        errors.forEach(error => console.error(`❌ ${error}`));
+        throw new Error(`${file} is not a valid backup (${errors.length} error(s))`);
+    }
+
+    setActiveGroupId(groupId ?? backup.groupId);
+    if (!dryRun && !(await signInFromEnv())) {
+        console.warn('⚠️ LEETBOARD_EMAIL/LEETBOARD_PASSWORD not set; writes will be rejected unless the rules allow them');
+    }
+
+    const report = await restoreBackup(backup, mode, dryRun);
+    console.log(`${dryRun ? '🔍 Dry run' : '✅ Restored'} (${mode}) into ${groupId ?? backup.groupId}:`);
+    Object.entries(report.counts).forEach(([name, { created, overwritten, deleted }]) => {
+        console.log(`   ${name}: ${created} created, ${overwritten} overwritten, ${deleted} deleted`);
+    });
+};
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error('Restore failed:', error);
+        process.exit(1);
+    });
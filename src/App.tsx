@@ -1,55 +1,106 @@
-import { useState, useEffect, useRef } from 'react';
-import { FaTrophy, FaCode, FaTrash, FaClock, FaListOl } from 'react-icons/fa';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { FaTrophy, FaCode, FaTrash, FaClock, FaListOl, FaCog, FaFire, FaSignInAlt, FaSignOutAlt, FaUsersCog, FaCalendarAlt, FaFileExport, FaFileImport } from 'react-icons/fa';
 import { IoMdRefresh, IoMdAlert } from 'react-icons/io';
 import { FaBoltLightning } from "react-icons/fa6";
-import { db } from './firebase';
 import {
-  collection,
   getDocs,
   addDoc,
-  deleteDoc,
-  doc,
+  increment,
   updateDoc,
 } from 'firebase/firestore';
 import LeaderboardTable from './components/LeaderboardTable';
 import TabNavigation from './components/TabNavigation';
+import CustomRangeLeaderboard from './components/CustomRangeLeaderboard';
+import PeriodHistoryModal from './components/PeriodHistoryModal';
+import SnapshotIntegrityNotice from './components/SnapshotIntegrityNotice';
+import ScoringSettingsModal from './components/ScoringSettingsModal';
+import MemberManagementModal from './components/MemberManagementModal';
+import JobImportModal from './components/JobImportModal';
+import PipelineSettingsModal from './components/PipelineSettingsModal';
+import JobStatusSelect from './components/JobStatusSelect';
+import JobDetailsModal from './components/JobDetailsModal';
+import JobMatchList from './components/JobMatchList';
+import JobFilters from './components/JobFilters';
+import SortableHeader from './components/SortableHeader';
+import FunnelAnalytics from './components/FunnelAnalytics';
+import UserProfileModal from './components/UserProfileModal';
+import LinkAccountModal from './components/LinkAccountModal';
+import GroupSwitcher from './components/GroupSwitcher';
+import GroupModal from './components/GroupModal';
 import {
   UserStats,
   LeaderboardSnapshot,
   FirestoreUser,
   Job,
-  LeetCodeResponse,
-  SnapshotUserStats
+  JobPipeline,
+  JobReminder,
+  JobsQuery,
+  JobStatus,
+  SnapshotUserStats,
+  FetchProgress,
+  AppRoute,
+  AuthState,
+  Group,
+  GroupMember,
+  SnapshotPeriod,
+  SnapshotIntegrityIssue,
+  ScoringRules
 } from './types';
 import {
   ensureSnapshotsForCurrentPeriods,
+  loadLatestSnapshot,
+  loadAllSnapshots,
 } from './utils/snapshotUtils';
 import {
   getTimeUntilNextReset,
-  getMonthlyPeriodKey,
-  getWeeklyPeriodKey,
-  getYearlyPeriodKey
+  getPeriodStartDayKey,
+  getPeriodStartInstant,
 } from './utils/dateUtils';
-import { loadSnapshotByKey } from './utils/snapshotUtils';
-import { subWeeks, subMonths, subYears } from 'date-fns';
-
-const STATUS_SEQUENCE: Job['status'][] = [
-  'Applied',
-  'Assessment',
-  'Interview',
-  'Offer',
-];
-
-function getNextStatus(current: Job['status']): Job['status'] {
-  const idx = STATUS_SEQUENCE.indexOf(current);
-  if (idx === -1) return 'Applied';
-  return STATUS_SEQUENCE[(idx + 1) % STATUS_SEQUENCE.length];
-}
+import { countActiveDays } from './utils/activityUtils';
+import { subscribeToFetchProgress } from './utils/statsScheduler';
+import { fetchUserStats, getCachedUserStats, fetchAllUserStats } from './utils/statsUtils';
+import { commitInBatches, loadUsers, setJobsApplied } from './utils/userUtils';
+import { recordDailySamples } from './utils/historyUtils';
+import { computeStatDeltas, rankStats } from './utils/progressUtils';
+import { checkSnapshotIntegrity } from './utils/integrityUtils';
+import { computeStageXp, getScoringRules, loadScoringRules, withStageXp } from './utils/scoringUtils';
+import { JOBS_PAGE_SIZE, UPCOMING_REMINDER_DAYS, getInitialStatus, getJobReminders, getPipeline, getStatusHistory, jobDeleteWrites, loadJobs, loadPipeline, moveJobDetailsToPrivate, queryJobs } from './utils/jobUtils';
+import { downloadJobCalendar } from './utils/calendarUtils';
+import { downloadJobsCsv } from './utils/csvUtils';
+import { findMatchingJobs, normalizeJobUrl } from './utils/duplicateUtils';
+import { getCurrentRoute, navigate, navigateToTab, subscribeToRoute } from './utils/routeUtils';
+import { canManageJobsOf, getAuthState, isAdmin, isApproved, signIn, signOutUser, subscribeToAuth, waitForAuth } from './utils/authUtils';
+import {
+  DEFAULT_GROUP,
+  DEFAULT_GROUP_ID,
+  getActiveGroupId,
+  groupCollection,
+  groupDoc,
+  loadAccountGroups,
+  loadInviteCode,
+  loadMembership,
+  setActiveGroupId,
+} from './utils/groupUtils';
+
+const REMINDER_LABELS: Record<JobReminder['kind'], string> = {
+  followUp: 'Follow up',
+  assessment: 'Assessment due',
+  interview: 'Interview',
+};
+
+const describeReminder = (reminder: JobReminder): string => {
+  const day = new Date(`${reminder.date}T00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${REMINDER_LABELS[reminder.kind]} ${reminder.overdue ? `overdue since ${day}` : day}`;
+};
 
 function App() {
   const [userStats, setUserStats] = useState<UserStats[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
-  const [activeTab, setActiveTab] = useState<'all' | 'jobs' | 'weekly' | 'monthly' | 'yearly'>('all');
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [fetchProgress, setFetchProgress] = useState<FetchProgress>({ completed: 0, total: 0 });
+  // Tab, jobs filter, history browser and open profile all live in the URL
+  const [route, setRoute] = useState<AppRoute>(getCurrentRoute);
+  const activeTab = route.tab;
   const [users, setUsers] = useState<FirestoreUser[]>([]);
 
   // Snapshots
@@ -72,16 +123,89 @@ function App() {
   const [modalActionType, setModalActionType] = useState<'user' | 'job'>('job');
   const [showUnifiedModal, setShowUnifiedModal] = useState<boolean>(false);
 
-  // Leaderboard Modal (for Weekly/Monthly/Yearly rankings)
-  const [showLeaderboardModal, setShowLeaderboardModal] = useState<boolean>(false);
-  const [leaderboardModalType, setLeaderboardModalType] = useState<'weekly' | 'monthly' | 'yearly' | null>(null);
-  const [prevLeaderboardStats, setPrevLeaderboardStats] = useState<UserStats[]>([]);
-  const [loadingPrevStats, setLoadingPrevStats] = useState<boolean>(false);
-  const [prevDataMissing, setPrevDataMissing] = useState<boolean>(false);
+  const [scoringRules, setScoringRules] = useState<ScoringRules>(getScoringRules());
+  const [showScoringModal, setShowScoringModal] = useState<boolean>(false);
+  const [showMemberModal, setShowMemberModal] = useState<boolean>(false);
+  const [pipeline, setPipeline] = useState<JobPipeline>(getPipeline());
+  const [showPipelineModal, setShowPipelineModal] = useState<boolean>(false);
+  const [showImportModal, setShowImportModal] = useState<boolean>(false);
+  const [integrityIssues, setIntegrityIssues] = useState<SnapshotIntegrityIssue[]>([]);
+
+  // Streak column toggle (remembered across visits)
+  const [showStreaks, setShowStreaks] = useState<boolean>(() => localStorage.getItem('showStreaks') === 'true');
 
   const [allJobs, setAllJobs] = useState<Job[]>([]);
-  const [jobsFilter, setJobsFilter] = useState<string>('all');
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const jobsFilter = route.jobsUser ?? 'all';
+  const jobsQuery: JobsQuery = useMemo(() => route.jobsQuery ?? {}, [route.jobsQuery]);
+  // Filtering and sorting the whole job list is the heaviest work here, so it only reruns when its inputs change
+  const filteredJobs = useMemo(
+    () => queryJobs(allJobs.filter(job => jobsFilter === 'all' || job.username === jobsFilter), jobsQuery, pipeline),
+    [allJobs, jobsFilter, jobsQuery, pipeline]
+  );
+  const jobsPageCount = Math.max(1, Math.ceil(filteredJobs.length / JOBS_PAGE_SIZE));
+  const jobsPage = Math.min(jobsQuery.page ?? 1, jobsPageCount);
+  const pagedJobs = filteredJobs.slice((jobsPage - 1) * JOBS_PAGE_SIZE, jobsPage * JOBS_PAGE_SIZE);
+  const jobReminders = new Map(filteredJobs.map(job => [job.id, getJobReminders(job)]));
+  const overdueCount = filteredJobs.filter(job => jobReminders.get(job.id)!.some(r => r.overdue)).length;
+  const upcomingCount = filteredJobs.filter(job => jobReminders.get(job.id)!.some(r => !r.overdue)).length;
+  const selectedJob = allJobs.find(job => job.id === selectedJobId);
+  // Same posting already logged, for the add job form
+  const newJobMatches = showUnifiedModal && (jobUrl.trim() || (jobTitle.trim() && jobCompany.trim()))
+    ? findMatchingJobs({ url: jobUrl, title: jobTitle, company: jobCompany }, allJobs)
+    : [];
+
+  const openProfile = (username: string) => navigate({ tab: 'all', profile: username });
+
+  // Filter changes replace the history entry (the search box changes per keystroke) and go back to page 1
+  const updateJobsQuery = (changes: Partial<JobsQuery>) => {
+    navigate({ tab: 'jobs', jobsUser: route.jobsUser, jobsQuery: { ...jobsQuery, page: undefined, ...changes } }, true);
+  };
+
+  useEffect(() => subscribeToFetchProgress(setFetchProgress), []);
+
+  useEffect(() => subscribeToRoute(setRoute), []);
+
+  // Signed-in account; null account means read-only
+  const [authState, setAuthState] = useState<AuthState>(getAuthState);
+  const account = authState.account;
+
+  useEffect(() => subscribeToAuth(setAuthState), []);
+
+  // Active group (remembered across visits), the groups the account can switch to,
+  // and the account's permissions in the active group (null means read-only)
+  const [groupId, setGroupId] = useState<string>(() => {
+    const saved = localStorage.getItem('activeGroup') ?? DEFAULT_GROUP_ID;
+    setActiveGroupId(saved);
+    return saved;
+  });
+  const [groups, setGroups] = useState<Group[]>([DEFAULT_GROUP]);
+  const [member, setMember] = useState<GroupMember | null>(null);
+  const [showGroupModal, setShowGroupModal] = useState<boolean>(false);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    waitForAuth()
+      .then(() => loadAccountGroups(getAuthState().account))
+      .then(list => {
+        setGroups(list);
+        // Signed out or no longer in the remembered group: fall back to the default board
+        if (!list.some(g => g.id === getActiveGroupId())) switchGroup(DEFAULT_GROUP_ID);
+      });
+  }, [account]);
+
+  useEffect(() => {
+    loadMembership(groupId, account).then(setMember);
+  }, [groupId, account]);
 
+  useEffect(() => {
+    setInviteCode(null);
+    if (isAdmin(member)) loadInviteCode(groupId).then(setInviteCode);
+  }, [groupId, member]);
+
+  useEffect(() => {
+    localStorage.setItem('showStreaks', String(showStreaks));
+  }, [showStreaks]);
 
   // Timer state
   const [timeUntilReset, setTimeUntilReset] = useState<number | null>(null);
@@ -123,182 +247,11 @@ function App() {
     return `${days}d ${hours}h ${minutes}m`;
   };
 
-  // Load all jobs from Firestore
-  const loadAllJobs = async () => {
-    try {
-      const jobsRef = collection(db, 'jobs');
-      const snapshot = await getDocs(jobsRef);
-      const jobsList: Job[] = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...(doc.data() as Omit<Job, 'id'>)
-      }));
-
-      // Sort: Most recent applied first (by createdAt or fallback)
-      jobsList.sort((a, b) => {
-        // Fallback to 0 if createdAt is missing, effectively putting them at the end or treated as old
-        const timeA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-        const timeB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-        return timeB - timeA;
-      });
-
-      setAllJobs(jobsList);
-    } catch (error) {
-      console.error('Error loading jobs:', error);
-    }
-  };
-
-  // Fetch stats for a single user
-  const fetchUserStats = async (username: string, jobsApplied: number = 0): Promise<UserStats> => {
-    console.log(`🔍 Fetching stats for ${username} with ${jobsApplied} jobs`);
-    const url = `https://leetcode-stats-api.herokuapp.com/${username}`;
-    const maxRetries = 3; // Robustness: Increase retries
-    let attempt = 0;
-
-    while (attempt <= maxRetries) {
-      try {
-        const response = await fetch(url);
-
-        // Retry on server errors (5xx)
-        if (!response.ok) {
-          if (response.status >= 500 && attempt < maxRetries) {
-            attempt++;
-            const backoff = 1000 * Math.pow(2, attempt - 1); // 1s, 2s, 4s
-            await new Promise(r => setTimeout(r, backoff));
-            continue;
-          }
-
-          // Try to parse body when available to get structured error message
-          const maybeJson = await response.json().catch(() => null);
-          if (maybeJson && maybeJson.status === 'error' && typeof maybeJson.message === 'string') {
-            const msg = maybeJson.message.toLowerCase();
-            if (msg.includes('user does not exist')) {
-              return {
-                username,
-                jobsApplied,
-                easy: 0,
-                medium: 0,
-                hard: 0,
-                total: 0,
-                xp: 0,
-                rank: 0,
-                error: 'this is not a leetcode user',
-              };
-            }
-          }
-
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const data: LeetCodeResponse = await response.json();
-
-        // If API indicates the user does not exist, return a specific error
-        if (data.status === 'error' && data.message && data.message.toLowerCase().includes('user does not exist')) {
-          return {
-            username,
-            jobsApplied,
-            easy: 0,
-            medium: 0,
-            hard: 0,
-            total: 0,
-            xp: 0,
-            rank: 0,
-            error: 'this is not a leetcode user',
-          };
-        }
-
-        // Check if the request was successful
-        if (data.status !== 'success') {
-          return {
-            username,
-            jobsApplied,
-            easy: 0,
-            medium: 0,
-            hard: 0,
-            total: 0,
-            xp: 0,
-            rank: 0,
-            error: 'User not found',
-          };
-        }
-
-        const easy = data.easySolved;
-        const medium = data.mediumSolved;
-        const hard = data.hardSolved;
-        const total = data.totalSolved;
-        const xp = (jobsApplied * 0.5) + (easy * 1) + (medium * 2) + (hard * 4);
-
-        console.log(`  ✅ ${username}: Jobs=${jobsApplied}, XP=${xp} (${jobsApplied * 0.5} from jobs)`);
-
-        return {
-          username,
-          jobsApplied,
-          easy,
-          medium,
-          hard,
-          total,
-          xp,
-          rank: 0, // Will be assigned after sorting
-          error: null,
-        };
-      } catch (error: any) {
-        // If we've exhausted retries, return a clear error for UI
-        if (attempt >= maxRetries) {
-          console.error(`Error fetching stats for ${username}:`, error);
-          return {
-            username,
-            jobsApplied,
-            easy: 0,
-            medium: 0,
-            hard: 0,
-            total: 0,
-            xp: 0,
-            rank: 0,
-            error: error instanceof Error ? error.message : 'LeetCode API unavailable',
-          };
-        }
-
-        // otherwise, increment attempt and retry after short backoff
-        attempt++;
-        const backoff = 1000 * Math.pow(2, attempt - 1);
-        await new Promise(r => setTimeout(r, backoff));
-      }
-    }
-
-    // Fallback (shouldn't reach here)
-    return {
-      username,
-      jobsApplied,
-      easy: 0,
-      medium: 0,
-      hard: 0,
-      total: 0,
-      xp: 0,
-      rank: 0,
-      error: 'Error fetching data',
-    };
-  };
-
   // Load users from Firestore
   const loadUsersFromFirestore = async () => {
-    try {
-      const usersRef = collection(db, 'users');
-      const snapshot = await getDocs(usersRef);
-      const userList: FirestoreUser[] = snapshot.docs.map(d => {
-        const data = d.data();
-        return {
-          id: d.id,
-          username: data.username as string,
-          name: data.name as string | undefined,
-          jobsApplied: data.jobsApplied as number | undefined,
-        };
-      });
-      console.log('📋 Loaded users with job counts:', userList.map(u => `${u.username}: ${u.jobsApplied || 0}`));
-      setUsers(userList);
-      return userList;
-    } catch (error) {
-      console.error('Error loading users from Firestore:', error);
-      return [];
-    }
+    const userList = await loadUsers();
+    setUsers(userList);
+    return userList;
   };
 
   // Add job to Firestore
@@ -317,32 +270,41 @@ function App() {
       return false;
     }
 
+    const ownDuplicates = findMatchingJobs({ url: trimmedUrl, title: trimmedTitle, company: trimmedCompany }, allJobs)
+      .filter(match => match.job.username === selectedJobUsername);
+    if (ownDuplicates.length > 0) {
+      const existing = ownDuplicates.map(({ job }) => `• ${job.title} at ${job.company} (${job.status}, added ${new Date(job.createdAt).toLocaleDateString()})`).join('\n');
+      if (!window.confirm(`${selectedJobUsername} may already have this job:\n${existing}\n\nAdd it anyway?`)) {
+        return false;
+      }
+    }
+
     try {
       setLoading(true);
       // Add the job document
-      await addDoc(collection(db, 'jobs'), {
+      const createdAt = new Date().toISOString();
+      const status = getInitialStatus();
+      await addDoc(groupCollection('jobs'), {
         username: selectedJobUsername,
         title: trimmedTitle,
         company: trimmedCompany,
-        url: trimmedUrl,
-        status: 'Applied',
-        createdAt: new Date().toISOString()
+        url: normalizeJobUrl(trimmedUrl),
+        status,
+        statusHistory: [{ status, changedAt: createdAt }],
+        createdAt
       });
 
       // Atomically increment the user's job count
-      const userRef = doc(db, 'users', userToUpdate.id);
-      const currentJobs = userToUpdate.jobsApplied || 0;
-      await updateDoc(userRef, { jobsApplied: currentJobs + 1 });
+      await updateDoc(groupDoc('users', userToUpdate.id), { jobsApplied: increment(1) });
 
       setJobUrl('');
       setJobTitle('');
       setJobCompany('');
       setSelectedJobUsername('');
 
-      // Reload users and stats to reflect the new job
+      // Reload users, jobs and stats to reflect the new job
       const updatedUsers = await loadUsersFromFirestore();
       await loadAllStats(updatedUsers);
-      await loadAllJobs();
       return true;
     } catch (error) {
       console.error('Error adding job:', error);
@@ -368,14 +330,14 @@ function App() {
       }
       const userToUpdate = users.find(u => u.username === jobToDelete.username);
 
-      // Delete the job document
-      await deleteDoc(doc(db, 'jobs', jobId));
+      // Delete the job document and its private notes and contacts
+      await commitInBatches(jobDeleteWrites(jobId));
 
       // If user is found, decrement their job count
       if (userToUpdate && userToUpdate.id) {
-        const userRef = doc(db, 'users', userToUpdate.id);
-        const currentJobs = userToUpdate.jobsApplied || 0;
-        await updateDoc(userRef, { jobsApplied: Math.max(0, currentJobs - 1) });
+        if ((userToUpdate.jobsApplied || 0) > 0) {
+          await updateDoc(groupDoc('users', userToUpdate.id), { jobsApplied: increment(-1) });
+        }
       }
 
       // Update local state for immediate UI feedback
@@ -393,15 +355,20 @@ function App() {
   };
 
   // Update job status in Firestore
-  const updateJobStatus = async (jobId: string, newStatus: Job['status']) => {
+  const updateJobStatus = async (job: Job, newStatus: JobStatus) => {
+    if (!job.id || job.status === newStatus) return;
+    const statusHistory = [...getStatusHistory(job), { status: newStatus, changedAt: new Date().toISOString() }];
     try {
-      await updateDoc(doc(db, 'jobs', jobId), { status: newStatus });
+      await updateDoc(groupDoc('jobs', job.id), { status: newStatus, statusHistory });
       // Update local state
-      setAllJobs(prevJobs =>
-        prevJobs.map(job =>
-          job.id === jobId ? { ...job, status: newStatus } : job
-        )
+      const updatedJobs = allJobs.map(j =>
+        j.id === job.id ? { ...j, status: newStatus, statusHistory } : j
       );
+      setAllJobs(updatedJobs);
+      // Re-score when reaching a stage can earn bonus XP
+      if (computeStageXp([{ ...job, status: newStatus, statusHistory }]).size > 0) {
+        await loadAllStats(users, undefined, undefined, undefined, userStats, updatedJobs);
+      }
     } catch (error) {
       console.error('Error updating job status:', error);
       alert('Failed to update job status.');
@@ -444,31 +411,15 @@ function App() {
         createdAt: new Date().toISOString()
       };
 
-      await addDoc(collection(db, 'users'), newUser);
+      await addDoc(groupCollection('users'), newUser);
       setNewUsername('');
       setNewName('');
 
-      // Need to include the new user stats in the 'current' batch for ensuring snapshots
-      // so we can't just loadUsersFromFirestore yet, we need to manually inject or wait.
-      // Better: reload users, then ensure snapshots again.
+      // Reload users, then re-run the snapshot logic: ensureSnapshotsForCurrentPeriods
+      // gives the new user a baseline in the current period snapshots
+      // ("New users joining mid-week/month/year: baseline created at first time seen").
       const updatedUsers = await loadUsersFromFirestore();
 
-      // Re-run snapshot ensure logic. This will add the new user to existing snapshots effectively
-      // or create new snapshots if needed. 
-      // Wait, ensureSnapshotsForCurrentPeriods checks if snapshot *document* exists.
-      // If it exists, it assumes it's good. But we added a user! 
-      // We need to add this user to the *current* snapshots if they are missing.
-      // But for simplicity/robustness, ensureSnapshotsForCurrentPeriods (as implemented) 
-      // only creates NEW snapshots if the document is missing. It doesn't patch existing ones.
-      // SO: We must patch the existing snapshots for the current period with this new user's baseline.
-
-      // Quick fix: We'll just call the "ensure" logic, but we might need a separate helper 
-      // to "Update Current Snapshot" or we accept they start next period.
-      // Requirement: "New users joining mid-week/month/year (baseline should be created at first time seen in that period)."
-      // So: We must patch the existing snapshots for the current period with this new user's baseline.
-
-      await addUserToCurrentSnapshots(trimmedUsername, userCurrentStats, trimmedName);
-
       await loadAllData(updatedUsers);
       return true;
     } catch (error) {
@@ -479,47 +430,6 @@ function App() {
     }
   };
 
-  const addUserToCurrentSnapshots = async (username: string, stats: UserStats, name: string) => {
-    // Very similar to old logic but using period keys from utils
-
-    // We need to fetch the snapshots that match current keys
-    const keys = {
-      weekly: getWeeklyPeriodKey(),
-      monthly: getMonthlyPeriodKey(),
-      yearly: getYearlyPeriodKey()
-    };
-
-    try {
-      const snapshotDocs = await getDocs(collection(db, 'leaderboardSnapshots'));
-      const updatePromises = snapshotDocs.docs.map(async (docSnap) => {
-        const data = docSnap.data() as LeaderboardSnapshot;
-        // Only update if it matches current period key
-        const isCurrent = (data.period === 'weekly' && data.periodKey === keys.weekly) ||
-          (data.period === 'monthly' && data.periodKey === keys.monthly) ||
-          (data.period === 'yearly' && data.periodKey === keys.yearly);
-
-        if (isCurrent && !data.users.some(u => u.username === username)) {
-          const newUserSnapshot: SnapshotUserStats = {
-            username,
-            name,
-            jobsApplied: stats.jobsApplied,
-            easy: stats.easy,
-            medium: stats.medium,
-            hard: stats.hard,
-            total: stats.total,
-            xp: stats.xp
-          };
-          await updateDoc(doc(db, 'leaderboardSnapshots', docSnap.id), {
-            users: [...data.users, newUserSnapshot]
-          });
-        }
-      });
-      await Promise.all(updatePromises);
-    } catch (err) {
-      console.error("Failed to patch snapshots", err);
-    }
-  };
-
   // Helper: Find user in snapshot
   const findSnapshotUser = (snapshot: LeaderboardSnapshot | null, username: string): SnapshotUserStats | null => {
     if (!snapshot) return null;
@@ -527,7 +437,12 @@ function App() {
   };
 
   // Helper: Compute progress from baseline
-  const computeProgress = (current: UserStats, baseline: SnapshotUserStats | null): UserStats => {
+  const computeProgress = (current: UserStats, baseline: SnapshotUserStats | null, period: SnapshotPeriod): UserStats => {
+    // Streaks carry over as-is; active days only count this period
+    const activity = current.submissionCalendar ? {
+      activeDays: countActiveDays(current.submissionCalendar, getPeriodStartDayKey(period)),
+    } : {};
+
     if (!baseline) {
       // User not in snapshot yet - show as 0 progress (or full stats? usually 0 progress makes sense for 'Period Progress')
       // If user joined mid-week, their baseline should have been set to their start stats.
@@ -541,29 +456,24 @@ function App() {
         hard: 0,
         total: 0,
         xp: 0,
+        stageXp: 0,
         rank: 0,
+        ...activity,
       };
     }
 
     // Progress = Current - Baseline
-    const jobsDelta = Math.max(0, current.jobsApplied - (baseline.jobsApplied || 0));
-    const easyDelta = Math.max(0, current.easy - baseline.easy);
-    const mediumDelta = Math.max(0, current.medium - baseline.medium);
-    const hardDelta = Math.max(0, current.hard - baseline.hard);
-    const totalDelta = Math.max(0, current.total - baseline.total);
-    const xpDelta = (jobsDelta * 0.5) + (easyDelta * 1) + (mediumDelta * 2) + (hardDelta * 4);
-
     return {
       username: current.username,
       name: current.name,
-      jobsApplied: jobsDelta,
-      easy: easyDelta,
-      medium: mediumDelta,
-      hard: hardDelta,
-      total: totalDelta,
-      xp: xpDelta,
+      ...computeStatDeltas(current, baseline),
       rank: 0,
-      error: current.error
+      error: current.error,
+      updatedAt: current.updatedAt,
+      submissionCalendar: current.submissionCalendar,
+      currentStreak: current.currentStreak,
+      longestStreak: current.longestStreak,
+      ...activity,
     };
   };
 
@@ -573,7 +483,8 @@ function App() {
     weeklySnap?: LeaderboardSnapshot | null,
     monthlySnap?: LeaderboardSnapshot | null,
     yearlySnap?: LeaderboardSnapshot | null,
-    preFetchedStats?: UserStats[]
+    preFetchedStats?: UserStats[],
+    jobList?: Job[]
   ) => {
     setLoading(true);
     try {
@@ -599,63 +510,36 @@ function App() {
         console.log('⚡ Using pre-fetched stats to avoid double API call');
         statsWithNames = preFetchedStats;
       } else {
-        // Fetch all users with concurrency limit to avoid overwhelming the API
-        const stats: UserStats[] = [];
-        const BATCH_SIZE = 3;
-
-        for (let i = 0; i < usersToFetch.length; i += BATCH_SIZE) {
-          const batch = usersToFetch.slice(i, i + BATCH_SIZE);
-          const batchPromises = batch.map(u => fetchUserStats(u.username, u.jobsApplied || 0));
-          const batchResults = await Promise.all(batchPromises);
-          stats.push(...batchResults);
-
-          // Small delay between batches if not the last batch
-          if (i + BATCH_SIZE < usersToFetch.length) {
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        }
-
-        statsWithNames = stats.map((s, idx) => ({
-          ...s,
-          name: usersToFetch[idx]?.name,
-        }));
+        statsWithNames = await fetchAllUserStats(usersToFetch);
       }
 
+      // Jobs earn stage bonus XP, in the period each stage was reached
+      const jobs = jobList ?? await loadJobs();
+      setAllJobs(jobs);
+      const stageXpSince = (period?: SnapshotPeriod) =>
+        computeStageXp(jobs, getScoringRules(), period && getPeriodStartInstant(period).toISOString());
+
       // Sort Global (All Time)
-      const sortedStats = [...statsWithNames].sort((a, b) => {
-        if (b.xp === a.xp) return b.total - a.total;
-        return b.xp - a.xp;
-      });
-      const rankedStats = sortedStats.map((stat, index) => ({ ...stat, rank: index + 1 }));
+      const rankedStats = rankStats(withStageXp(statsWithNames, stageXpSince()));
       setUserStats(rankedStats);
 
-      // Helper to sort and rank
-      const sortAndRank = (items: UserStats[]) => {
-        return items
-          .sort((a, b) => {
-            if (b.xp === a.xp) return b.total - a.total;
-            return b.xp - a.xp;
-          })
-          .map((stat, index) => ({ ...stat, rank: index + 1 }));
-      };
-
       // Weekly
       const weeklyProgress = rankedStats.map(stat =>
-        computeProgress(stat, findSnapshotUser(currentWeeklySnapshot, stat.username))
+        computeProgress(stat, findSnapshotUser(currentWeeklySnapshot, stat.username), 'weekly')
       );
-      setWeeklyStats(sortAndRank(weeklyProgress));
+      setWeeklyStats(rankStats(withStageXp(weeklyProgress, stageXpSince('weekly'))));
 
       // Monthly
       const monthlyProgress = rankedStats.map(stat =>
-        computeProgress(stat, findSnapshotUser(currentMonthlySnapshot, stat.username))
+        computeProgress(stat, findSnapshotUser(currentMonthlySnapshot, stat.username), 'monthly')
       );
-      setMonthlyStats(sortAndRank(monthlyProgress));
+      setMonthlyStats(rankStats(withStageXp(monthlyProgress, stageXpSince('monthly'))));
 
       // Yearly
       const yearlyProgress = rankedStats.map(stat =>
-        computeProgress(stat, findSnapshotUser(currentYearlySnapshot, stat.username))
+        computeProgress(stat, findSnapshotUser(currentYearlySnapshot, stat.username), 'yearly')
       );
-      setYearlyStats(sortAndRank(yearlyProgress));
+      setYearlyStats(rankStats(withStageXp(yearlyProgress, stageXpSince('yearly'))));
 
     } catch (error) {
       console.error('Error loading stats:', error);
@@ -664,10 +548,10 @@ function App() {
     }
   };
 
-  // Sync job counts
-  const syncJobCounts = async () => {
+  // Sync job counts (everyone's for admins, only their own for members)
+  const syncJobCounts = async (signedInMember: GroupMember) => {
     try {
-      const jobsRef = collection(db, 'jobs');
+      const jobsRef = groupCollection('jobs');
       const jobsSnapshot = await getDocs(jobsRef);
 
       const jobCounts = new Map<string, number>();
@@ -676,18 +560,17 @@ function App() {
         jobCounts.set(jobData.username, (jobCounts.get(jobData.username) || 0) + 1);
       });
 
-      const usersRef = collection(db, 'users');
+      const usersRef = groupCollection('users');
       const usersSnapshot = await getDocs(usersRef);
 
       const updatePromises = usersSnapshot.docs.map(async (userDoc) => {
         const userData = userDoc.data() as FirestoreUser;
+        if (!canManageJobsOf(signedInMember, userData.username)) return;
         const actualJobCount = jobCounts.get(userData.username) || 0;
         const currentJobCount = userData.jobsApplied || 0;
 
         if (actualJobCount !== currentJobCount) {
-          await updateDoc(doc(db, 'users', userDoc.id), {
-            jobsApplied: actualJobCount
-          });
+          await setJobsApplied(userDoc.id, actualJobCount);
         }
       });
       await Promise.all(updatePromises);
@@ -696,136 +579,82 @@ function App() {
     }
   };
 
-  const computePrevStats = (endSnap: LeaderboardSnapshot, startSnap: LeaderboardSnapshot | null) => {
-    const stats: UserStats[] = endSnap.users.map(endUser => {
-      const startUser = startSnap?.users.find(u => u.username === endUser.username);
-
-      const jobsDelta = Math.max(0, endUser.jobsApplied - (startUser?.jobsApplied || 0));
-      const easyDelta = Math.max(0, endUser.easy - (startUser?.easy || 0));
-      const mediumDelta = Math.max(0, endUser.medium - (startUser?.medium || 0));
-      const hardDelta = Math.max(0, endUser.hard - (startUser?.hard || 0));
-
-      // Recompute XP based on deltas
-      const xpDelta = (jobsDelta * 0.5) + (easyDelta * 1) + (mediumDelta * 2) + (hardDelta * 4);
-
-      return {
-        username: endUser.username,
-        name: endUser.name,
-        jobsApplied: jobsDelta,
-        easy: easyDelta,
-        medium: mediumDelta,
-        hard: hardDelta,
-        total: easyDelta + mediumDelta + hardDelta,
-        xp: xpDelta,
-        rank: 0,
-        error: null
-      };
-    });
-
-    const ranked = stats.sort((a, b) => b.xp - a.xp).map((s, i) => ({ ...s, rank: i + 1 }));
-    setPrevLeaderboardStats(ranked);
-  };
-
-  const handleViewPreviousLeaderboard = async (period: 'weekly' | 'monthly' | 'yearly') => {
-    setLoadingPrevStats(true);
-    setLeaderboardModalType(period);
-    setPrevLeaderboardStats([]); // Clear old stats
-    setPrevDataMissing(false);
-    setShowLeaderboardModal(true);
-
+  const loadAllData = async (usersOverride?: FirestoreUser[], forceRefresh: boolean = false) => {
+    setRefreshing(true);
     try {
-      const now = new Date();
-      let prevKey: string;
-      // We need the snapshot that REPRESENTS the end of the previous period.
-      // Usually, the 'current' snapshot (if we are in a new week) is the baseline for THIS week.
-      // So 'currentSnap' is actually the START of this week (end of last week).
-
-      let endSnap: LeaderboardSnapshot | null = null;
-      let startSnap: LeaderboardSnapshot | null = null;
-
-      if (period === 'weekly') {
-        // Current Weekly Snapshot = Baseline for CURRENT week (Start of this week)
-        // This effectively represents the state at the END of last week.
-        endSnap = weeklySnapshot;
-
-        // We need the snapshot from 1 week before that to be the START of last week.
-        prevKey = getWeeklyPeriodKey(subWeeks(now, 1));
-      } else if (period === 'monthly') {
-        endSnap = monthlySnapshot;
-        prevKey = getMonthlyPeriodKey(subMonths(now, 1));
-      } else {
-        endSnap = yearlySnapshot;
-        prevKey = getYearlyPeriodKey(subYears(now, 1));
-      }
-
-      // Fetch start of previous period
-      startSnap = await loadSnapshotByKey(period, prevKey);
-
-      if (!startSnap) {
-        console.warn(`Missing start snapshot for previous ${period} (Key: ${prevKey})`);
-        setPrevDataMissing(true);
-        setPrevLeaderboardStats([]);
-        return;
+      // 0. Scoring rules, so every XP computed below uses the admin's weights
+      setScoringRules(await loadScoringRules());
+      setPipeline(await loadPipeline());
+
+      // 1. Sync Jobs. Visitors who aren't members of this group can't write, so they only read.
+      const { account: signedInAccount } = await waitForAuth();
+      const signedInMember = await loadMembership(getActiveGroupId(), signedInAccount);
+      if (signedInMember) {
+        await syncJobCounts(signedInMember);
+        // Jobs saved before notes and contacts were private still show them to everyone
+        const managedJobs = (await loadJobs()).filter(job => canManageJobsOf(signedInMember, job.username));
+        await moveJobDetailsToPrivate(managedJobs);
       }
 
-      if (endSnap) {
-        computePrevStats(endSnap, startSnap);
-      } else {
-        // If we don't even have a current baseline, we essentially have no history at all
-        setPrevDataMissing(true);
-        setPrevLeaderboardStats([]);
+      // 2. Load Users
+      const currentUsers = usersOverride || await loadUsersFromFirestore();
+
+      // 3. Render straight from the stats cache while fresh stats load in the background
+      if (!forceRefresh) {
+        const cachedStats = await getCachedUserStats(currentUsers);
+        if (cachedStats.length > 0) {
+          const [weekly, monthly, yearly] = await Promise.all([
+            loadLatestSnapshot('weekly'),
+            loadLatestSnapshot('monthly'),
+            loadLatestSnapshot('yearly'),
+          ]);
+          setWeeklySnapshot(weekly);
+          setMonthlySnapshot(monthly);
+          setYearlySnapshot(yearly);
+          await loadAllStats(currentUsers, weekly, monthly, yearly, cachedStats);
+        }
       }
 
-    } catch (e) {
-      console.error(e);
-      setPrevDataMissing(true);
-      setPrevLeaderboardStats([]);
-    } finally {
-      setLoadingPrevStats(false);
-    }
-  };
-
-  const loadAllData = async (usersOverride?: FirestoreUser[]) => {
-    // 1. Sync Jobs
-    await syncJobCounts();
-
-    // 2. Load Users
-    const currentUsers = usersOverride || await loadUsersFromFirestore();
-
-    // 3. Get Current Stats to use for Snapshot Creation if needed
-    // (This creates a slight double fetch if we load stats later, but needed for baseline integrity)
-    // 3. Get Current Stats to use for Snapshot Creation if needed
-    // (This creates a slight double fetch if we load stats later, but needed for baseline integrity)
-    // We implement concurrency limiting here as well.
-    const currentStatsRaw: UserStats[] = [];
-    const BATCH_SIZE = 3;
-
-    for (let i = 0; i < currentUsers.length; i += BATCH_SIZE) {
-      const batch = currentUsers.slice(i, i + BATCH_SIZE);
-      const batchPromises = batch.map(u => fetchUserStats(u.username, u.jobsApplied || 0));
-      const batchResults = await Promise.all(batchPromises);
-      currentStatsRaw.push(...batchResults);
-
-      if (i + BATCH_SIZE < currentUsers.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    }
+      // 4. Get Current Stats to use for Snapshot Creation if needed
+      // (stale or missing cache entries are refetched, everything when forced)
+      const currentStats = await fetchAllUserStats(currentUsers, forceRefresh);
+
+      // 5. Ensure Snapshots (Idempotent); read-only visitors use whatever exists
+      const snapshots = signedInMember
+        ? await ensureSnapshotsForCurrentPeriods(currentStats, 'app')
+        : {
+          weekly: await loadLatestSnapshot('weekly'),
+          monthly: await loadLatestSnapshot('monthly'),
+          yearly: await loadLatestSnapshot('yearly'),
+        };
 
-    // add names
-    const currentStats: UserStats[] = currentStatsRaw.map((s, idx) => ({ ...s, name: currentUsers[idx]?.name }));
+      setWeeklySnapshot(snapshots.weekly);
+      setMonthlySnapshot(snapshots.monthly);
+      setYearlySnapshot(snapshots.yearly);
 
-    // 4. Ensure Snapshots (Idempotent)
-    const snapshots = await ensureSnapshotsForCurrentPeriods(currentStats);
+      // 5b. Record today's stat history sample (once per user per day)
+      if (signedInMember) await recordDailySamples(currentStats, signedInMember);
 
-    setWeeklySnapshot(snapshots.weekly);
-    setMonthlySnapshot(snapshots.monthly);
-    setYearlySnapshot(snapshots.yearly);
+      // 6. Load Jobs & Stats, Calculate Progress
+      await loadAllStats(currentUsers, snapshots.weekly, snapshots.monthly, snapshots.yearly, currentStats);
 
-    // 5. Load Stats & Calculate Progress
-    await loadAllStats(currentUsers, snapshots.weekly, snapshots.monthly, snapshots.yearly, currentStats);
+      // 6b. Flag baselines that were corrupted before failed fetches were excluded
+      setIntegrityIssues(checkSnapshotIntegrity(await loadAllSnapshots(), currentStats));
+    } finally {
+      setRefreshing(false);
+    }
+  };
 
-    // 6. Load Jobs
-    await loadAllJobs();
+  // Point every read and write at another group and reload its board
+  const switchGroup = (nextGroupId: string) => {
+    if (nextGroupId === getActiveGroupId()) return;
+    setActiveGroupId(nextGroupId);
+    localStorage.setItem('activeGroup', nextGroupId);
+    setGroupId(nextGroupId);
+    setUserStats([]);
+    setAllJobs([]);
+    setIntegrityIssues([]);
+    loadAllData();
   };
 
   const dataLoaded = useRef(false);
@@ -859,36 +688,110 @@ function App() {
               </p>
               <p className="text-gray-400 text-base flex items-center gap-2">
                 <FaBoltLightning className="text-[#FFA116]" />
-                XP: Job Apply = 0.5, Easy = 1, Medium = 2, Hard = 4.
+                XP: Job Apply = {scoringRules.jobApplied}, Easy = {scoringRules.easy}, Medium = {scoringRules.medium}, Hard = {scoringRules.hard}
+                {Object.entries(scoringRules.stageBonuses ?? {}).map(([stage, bonus]) => `, ${stage} = +${bonus}`).join('')}.
+                {isAdmin(member) && (
+                  <button
+                    onClick={() => setShowScoringModal(true)}
+                    className="text-gray-500 hover:text-[#FFA116] transition-colors"
+                    aria-label="Edit XP scoring rules"
+                    title="Edit XP scoring rules"
+                  >
+                    <FaCog />
+                  </button>
+                )}
               </p>
             </div>
-            {/* Timer */}
-            {timeUntilReset && activeTab !== 'all' && activeTab !== 'jobs' && (
-              <div className="flex flex-col items-end justify-center text-gray-400">
-                <div className="text-sm font-medium text-gray-500 uppercase tracking-widest">{resetPeriodLabel}</div>
-                <div className="flex items-center gap-2 text-xl font-mono text-[#FFA116]">
-                  <FaClock />
-                  {formatTimeRemaining(timeUntilReset)}
+            <div className="flex flex-col items-end gap-3">
+              {/* Timer */}
+              {timeUntilReset && activeTab !== 'all' && activeTab !== 'jobs' && activeTab !== 'analytics' && activeTab !== 'custom' && (
+                <div className="flex flex-col items-end justify-center text-gray-400">
+                  <div className="text-sm font-medium text-gray-500 uppercase tracking-widest">{resetPeriodLabel}</div>
+                  <div className="flex items-center gap-2 text-xl font-mono text-[#FFA116]">
+                    <FaClock />
+                    {formatTimeRemaining(timeUntilReset)}
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
+              <GroupSwitcher
+                groups={groups}
+                activeGroupId={groupId}
+                inviteCode={inviteCode}
+                onSwitch={switchGroup}
+                onAddGroup={isApproved(account) ? () => setShowGroupModal(true) : undefined}
+              />
+              {/* Sign-in */}
+              {authState.signedIn ? (
+                <div className="flex items-center gap-3 text-sm text-gray-400">
+                  <span>
+                    {account ? account.username : authState.email}
+                    {account && !isApproved(account) && <span className="ml-2 px-2 py-0.5 text-xs font-semibold bg-gray-700 text-gray-300 rounded-full" title="An admin has to approve this link before you can make changes">awaiting approval</span>}
+                    {isAdmin(member) && <span className="ml-2 px-2 py-0.5 text-xs font-semibold bg-[#FFA116]/20 text-[#FFA116] rounded-full">admin</span>}
+                  </span>
+                  {isAdmin(member) && (
+                    <button
+                      onClick={() => setShowMemberModal(true)}
+                      className="flex items-center gap-1 text-gray-500 hover:text-white transition-colors"
+                    >
+                      <FaUsersCog /> Members
+                    </button>
+                  )}
+                  <button
+                    onClick={() => signOutUser()}
+                    className="flex items-center gap-1 text-gray-500 hover:text-white transition-colors"
+                  >
+                    <FaSignOutAlt /> Sign Out
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => signIn().catch(error => console.error('Error signing in:', error))}
+                  className="flex items-center gap-2 text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                  <FaSignInAlt /> Sign In
+                </button>
+              )}
+              {/* Force a full refetch, bypassing the stats cache */}
+              <button
+                onClick={() => loadAllData(undefined, true)}
+                disabled={refreshing}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-all duration-200 flex items-center gap-2"
+              >
+                <IoMdRefresh className={refreshing ? "animate-spin h-4 w-4" : "h-4 w-4"} />
+                {refreshing ? 'Refreshing...' : 'Refresh Stats'}
+              </button>
+              {fetchProgress.completed < fetchProgress.total && (
+                <div className="text-sm text-gray-400">
+                  {fetchProgress.completed}/{fetchProgress.total} users loaded
+                </div>
+              )}
+            </div>
           </div>
 
         </div>
 
         {/* Navigation Tabs */}
-        <TabNavigation activeTab={activeTab} onTabChange={setActiveTab} />
+        <TabNavigation activeTab={activeTab} onTabChange={navigateToTab} />
 
-        {/* Toggle View for Leaderboard (Weekly/Monthly/Yearly) */}
-        {(activeTab === 'weekly' || activeTab === 'monthly' || activeTab === 'yearly') && (
-          <div className="flex justify-end mb-4">
+        {/* Leaderboard toolbar: streak column toggle, plus history for Weekly/Monthly/Yearly */}
+        {(activeTab === 'all' || activeTab === 'weekly' || activeTab === 'monthly' || activeTab === 'yearly') && (
+          <div className="flex justify-end gap-2 mb-4">
             <button
-              onClick={() => handleViewPreviousLeaderboard(activeTab)}
-              className="flex items-center gap-2 px-4 py-2 bg-[#2d2d2d] hover:bg-[#333] border border-gray-700 rounded-lg text-sm text-gray-300 transition-colors"
+              onClick={() => setShowStreaks(prev => !prev)}
+              className={`flex items-center gap-2 px-4 py-2 border rounded-lg text-sm transition-colors ${showStreaks ? 'bg-[#FFA116]/10 border-[#FFA116] text-[#FFA116]' : 'bg-[#2d2d2d] hover:bg-[#333] border-gray-700 text-gray-300'}`}
             >
-              <FaListOl className="text-[#FFA116]" />
-              View Prev. {activeTab === 'weekly' ? 'Week' : activeTab === 'monthly' ? 'Month' : 'Year'} Leaderboard
+              <FaFire className="text-[#FFA116]" />
+              {showStreaks ? 'Hide' : 'Show'} Streaks
             </button>
+            {activeTab !== 'all' && (
+              <button
+                onClick={() => navigate({ tab: activeTab, history: {} })}
+                className="flex items-center gap-2 px-4 py-2 bg-[#2d2d2d] hover:bg-[#333] border border-gray-700 rounded-lg text-sm text-gray-300 transition-colors"
+              >
+                <FaListOl className="text-[#FFA116]" />
+                Past {activeTab === 'weekly' ? 'Week' : activeTab === 'monthly' ? 'Month' : 'Year'} Leaderboards
+              </button>
+            )}
           </div>
         )}
 
@@ -902,11 +805,16 @@ function App() {
                     <IoMdRefresh className="animate-spin h-16 w-16 text-[#FFA116]" />
                   </div>
                   <p className="text-gray-400 text-xl font-medium">Loading leaderboard...</p>
+                  {fetchProgress.total > 0 && (
+                    <p className="text-gray-500 text-sm mt-2">{fetchProgress.completed}/{fetchProgress.total} users loaded</p>
+                  )}
                 </div>
               </div>
             ) : (
               <LeaderboardTable
                 userStats={userStats}
+                showStreaks={showStreaks}
+                onSelectUser={openProfile}
               />
             )}
           </>
@@ -941,8 +849,11 @@ function App() {
                     ⚠️ No weekly baseline yet. Progress will show as 0 until a snapshot is captured.
                   </div>
                 )}
+                <SnapshotIntegrityNotice issues={integrityIssues.filter(i => i.snapshotId === weeklySnapshot?.id)} />
                 <LeaderboardTable
                   userStats={weeklyStats}
+                  showStreaks={showStreaks}
+                  onSelectUser={openProfile}
                 />
               </>
             )}
@@ -963,7 +874,8 @@ function App() {
               </div>
             ) : (
               <>
-                <LeaderboardTable userStats={monthlyStats} />
+                <SnapshotIntegrityNotice issues={integrityIssues.filter(i => i.snapshotId === monthlySnapshot?.id)} />
+                <LeaderboardTable userStats={monthlyStats} showStreaks={showStreaks} onSelectUser={openProfile} />
               </>
             )}
           </>
@@ -982,11 +894,30 @@ function App() {
                 </div>
               </div>
             ) : (
-              <LeaderboardTable userStats={yearlyStats} />
+              <>
+                <SnapshotIntegrityNotice issues={integrityIssues.filter(i => i.snapshotId === yearlySnapshot?.id)} />
+                <LeaderboardTable userStats={yearlyStats} showStreaks={showStreaks} onSelectUser={openProfile} />
+              </>
             )}
           </>
         )}
 
+        {/* Custom Range */}
+        {activeTab === 'custom' && (
+          <CustomRangeLeaderboard userStats={userStats} jobs={allJobs} />
+        )}
+
+        {/* Job Funnel */}
+        {activeTab === 'analytics' && (
+          <FunnelAnalytics
+            jobs={allJobs}
+            users={users}
+            pipeline={pipeline}
+            filter={route.analytics ?? {}}
+            onFilterChange={(analytics) => navigate({ tab: 'analytics', analytics }, true)}
+          />
+        )}
+
         {/* Jobs Applied View */}
         {activeTab === 'jobs' && (
           <div className="mt-8">
@@ -998,7 +929,7 @@ function App() {
                 <select
                   id="user-filter"
                   value={jobsFilter}
-                  onChange={(e) => setJobsFilter(e.target.value)}
+                  onChange={(e) => navigate({ tab: 'jobs', jobsUser: e.target.value === 'all' ? undefined : e.target.value, jobsQuery: { ...jobsQuery, page: undefined } })}
                   className="px-4 py-2 bg-[#262626] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-blue-400 transition-colors"
                 >
                   <option value="all">All Users</option>
@@ -1008,13 +939,70 @@ function App() {
                     </option>
                   ))}
                 </select>
+                {/* Exports whatever the filter shows: one user or the whole group */}
+                <button
+                  onClick={() => {
+                    const groupName = groups.find(g => g.id === groupId)?.name ?? DEFAULT_GROUP.name;
+                    const owner = jobsFilter === 'all' ? groupName : jobsFilter;
+                    downloadJobCalendar(filteredJobs, `${owner} job dates`, `${groupId}-${jobsFilter}.ics`);
+                  }}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+                  title="Download interviews, deadlines and follow-ups as a calendar file"
+                >
+                  <FaCalendarAlt /> Export Calendar
+                </button>
+                {/* Every filtered job, not just the current page */}
+                <button
+                  onClick={() => downloadJobsCsv(filteredJobs, `${groupId}-${jobsFilter}-jobs.csv`)}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+                  title="Download the jobs matching the current filters as a spreadsheet"
+                >
+                  <FaFileExport /> Export CSV
+                </button>
+                {member && (
+                  <button
+                    onClick={() => setShowImportModal(true)}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+                    title="Add jobs from a spreadsheet"
+                  >
+                    <FaFileImport /> Import CSV
+                  </button>
+                )}
               </div>
 
               <div className="flex items-center gap-2 text-sm text-gray-400">
-                Status: Applied → Assessment → Interview → Offer
+                Status: {pipeline.stages.filter(stage => !stage.terminal).map(stage => stage.name).join(' → ')}
+                {isAdmin(member) && (
+                  <button
+                    onClick={() => setShowPipelineModal(true)}
+                    className="text-gray-500 hover:text-[#FFA116] transition-colors"
+                    aria-label="Edit job pipeline"
+                    title="Edit job pipeline"
+                  >
+                    <FaCog />
+                  </button>
+                )}
               </div>
             </div>
 
+            <JobFilters query={jobsQuery} pipeline={pipeline} onChange={updateJobsQuery} />
+
+            {/* Reminders */}
+            {(overdueCount > 0 || upcomingCount > 0) && (
+              <div className="mb-4 flex flex-wrap gap-4 text-sm">
+                {overdueCount > 0 && (
+                  <span className="px-3 py-1.5 rounded-lg bg-red-500/15 text-red-400">
+                    {overdueCount} job{overdueCount === 1 ? '' : 's'} with an overdue follow-up
+                  </span>
+                )}
+                {upcomingCount > 0 && (
+                  <span className="px-3 py-1.5 rounded-lg bg-[#FFA116]/15 text-[#FFA116]">
+                    {upcomingCount} job{upcomingCount === 1 ? '' : 's'} due in the next {UPCOMING_REMINDER_DAYS} days
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Jobs Table */}
             {allJobs.length === 0 ? (
               <div className="text-center py-20">
@@ -1025,18 +1013,17 @@ function App() {
                 <table className="min-w-full table-fixed">
                   <thead className="bg-[#262626]">
                     <tr>
-                      <th className="w-[15%] px-6 py-5 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Username</th>
-                      <th className="w-[30%] px-6 py-5 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Job Title</th>
-                      <th className="w-[15%] px-6 py-5 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Company</th>
+                      <SortableHeader label="Username" sortKey="username" query={jobsQuery} onSort={(sort, direction) => updateJobsQuery({ sort, direction })} className="w-[15%]" />
+                      <SortableHeader label="Job Title" sortKey="title" query={jobsQuery} onSort={(sort, direction) => updateJobsQuery({ sort, direction })} className="w-[30%]" />
+                      <SortableHeader label="Company" sortKey="company" query={jobsQuery} onSort={(sort, direction) => updateJobsQuery({ sort, direction })} className="w-[15%]" />
                       <th className="w-[15%] px-6 py-5 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Job URL</th>
-                      <th className="w-[15%] px-6 py-5 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Status</th>
-                      <th className="w-auto px-6 py-5 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Date Applied</th>
+                      <SortableHeader label="Status" sortKey="status" query={jobsQuery} onSort={(sort, direction) => updateJobsQuery({ sort, direction })} className="w-[15%]" />
+                      <SortableHeader label="Date Applied" sortKey="createdAt" query={jobsQuery} onSort={(sort, direction) => updateJobsQuery({ sort, direction })} className="w-auto" />
                       <th className="w-[5%] px-6 py-5 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">Action</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-800">
-                    {allJobs
-                      .filter(job => jobsFilter === 'all' || job.username === jobsFilter)
+                    {pagedJobs
                       .map((job, index) => {
                         const user = users.find(u => u.username === job.username);
                         const date = new Date(job.createdAt);
@@ -1045,16 +1032,6 @@ function App() {
                           month: 'short',
                           day: 'numeric'
                         });
-                        const getStatusColor = (status: Job['status']) => {
-                          switch (status) {
-                            case 'Applied': return 'bg-blue-500 hover:bg-blue-400 text-white';
-                            case 'Assessment': return 'bg-green-500 hover:bg-green-400 text-white';
-                            case 'Interview': return 'bg-orange-600 hover:bg-orange-500 text-white';
-                            case 'Offer': return 'bg-yellow-500 hover:bg-yellow-600 text-white';
-                            default: return 'bg-gray-500 hover:bg-gray-400 text-white';
-                          }
-                        };
-
                         return (
                           <tr key={job.id || index} className={`${index % 2 === 0 ? 'bg-[#262626]' : 'bg-[#2d2d2d]'} hover:bg-[#333333] transition-colors duration-150`}>
                             <td className="px-6 py-5 whitespace-nowrap">
@@ -1063,44 +1040,92 @@ function App() {
                                 {user?.name && <div className="text-sm text-gray-400 mt-1 truncate">{user.name}</div>}
                               </div>
                             </td>
-                            <td className="px-6 py-5 whitespace-nowrap truncate"><div className="text-base text-white truncate">{job.title}</div></td>
+                            <td className="px-6 py-5 whitespace-nowrap truncate">
+                              <button
+                                onClick={() => job.id && setSelectedJobId(job.id)}
+                                className="block max-w-full text-left text-base text-white hover:text-[#FFA116] truncate transition-colors"
+                                title="Notes, contacts and dates"
+                              >
+                                {job.title}
+                              </button>
+                              {jobReminders.get(job.id)!.map(reminder => (
+                                <div key={`${reminder.kind}-${reminder.date}`} className={`text-xs mt-1 truncate ${reminder.overdue ? 'text-red-400' : 'text-[#FFA116]'}`}>
+                                  {describeReminder(reminder)}
+                                </div>
+                              ))}
+                            </td>
                             <td className="px-6 py-5 whitespace-nowrap truncate"><div className="text-base text-white">{job.company}</div></td>
                             <td className="px-6 py-5 whitespace-nowrap truncate">
                               <a href={job.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 hover:underline">URL</a>
                             </td>
                             <td className="px-6 py-5 whitespace-nowrap">
-                              <button
-                                onClick={() => job.id && updateJobStatus(job.id, getNextStatus(job.status))}
-                                className={`px-3 py-1.5 text-sm font-semibold rounded-full transition-colors ${getStatusColor(job.status)}`}
-                              >
-                                {job.status}
-                              </button>
+                              <JobStatusSelect
+                                job={job}
+                                pipeline={pipeline}
+                                disabled={!canManageJobsOf(member, job.username)}
+                                onChange={(status) => updateJobStatus(job, status)}
+                              />
                             </td>
                             <td className="px-6 py-5 whitespace-nowrap"><div className="text-base text-white">{formattedDate}</div></td>
                             <td className="px-6 py-5 whitespace-nowrap text-right">
-                              <button onClick={() => job.id && deleteJob(job.id)} className="text-gray-400 hover:text-red-500 transition-colors" aria-label="Delete job"><FaTrash /></button>
+                              {canManageJobsOf(member, job.username) && (
+                                <button onClick={() => job.id && deleteJob(job.id)} className="text-gray-400 hover:text-red-500 transition-colors" aria-label="Delete job"><FaTrash /></button>
+                              )}
                             </td>
                           </tr>
                         );
                       })}
+                    {filteredJobs.length === 0 && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-10 text-center text-gray-400">No jobs match these filters.</td>
+                      </tr>
+                    )}
                   </tbody>
                 </table>
               </div>
             )}
+
+            {/* Pagination */}
+            {filteredJobs.length > JOBS_PAGE_SIZE && (
+              <div className="mt-4 flex items-center justify-between text-sm text-gray-400">
+                <span>
+                  Showing {(jobsPage - 1) * JOBS_PAGE_SIZE + 1}–{Math.min(jobsPage * JOBS_PAGE_SIZE, filteredJobs.length)} of {filteredJobs.length}
+                </span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => navigate({ tab: 'jobs', jobsUser: route.jobsUser, jobsQuery: { ...jobsQuery, page: jobsPage - 1 } })}
+                    disabled={jobsPage === 1}
+                    className="px-3 py-1.5 bg-[#262626] hover:bg-[#333333] disabled:text-gray-600 disabled:hover:bg-[#262626] rounded-lg transition-colors"
+                  >
+                    Previous
+                  </button>
+                  <span>Page {jobsPage} of {jobsPageCount}</span>
+                  <button
+                    onClick={() => navigate({ tab: 'jobs', jobsUser: route.jobsUser, jobsQuery: { ...jobsQuery, page: jobsPage + 1 } })}
+                    disabled={jobsPage === jobsPageCount}
+                    className="px-3 py-1.5 bg-[#262626] hover:bg-[#333333] disabled:text-gray-600 disabled:hover:bg-[#262626] rounded-lg transition-colors"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
         {/* Floating Add Button */}
-        <button
-          onClick={() => {
-            setModalActionType('job');
-            setShowUnifiedModal(true);
-            if (users.length > 0) setSelectedJobUsername(users[0]?.username || '');
-          }}
-          className="fixed bottom-8 right-8 w-14 h-14 bg-[#FFA116] hover:bg-[#FFB84D] text-black rounded-full shadow-lg flex items-center justify-center text-2xl font-bold transition-all duration-200 hover:scale-110 z-40"
-        >
-          +
-        </button>
+        {member && (
+          <button
+            onClick={() => {
+              setModalActionType('job');
+              setShowUnifiedModal(true);
+              setSelectedJobUsername(isAdmin(member) ? users[0]?.username || '' : member.username);
+            }}
+            className="fixed bottom-8 right-8 w-14 h-14 bg-[#FFA116] hover:bg-[#FFB84D] text-black rounded-full shadow-lg flex items-center justify-center text-2xl font-bold transition-all duration-200 hover:scale-110 z-40"
+          >
+            +
+          </button>
+        )}
 
         {/* Unified Add Modal */}
         {showUnifiedModal && (
@@ -1108,7 +1133,9 @@ function App() {
             <div className="bg-[#262626] rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl h-[580px] flex flex-col" onClick={(e) => e.stopPropagation()}>
               <div className="flex gap-2 mb-6 bg-[#1a1a1a] p-1 rounded-lg">
                 <button type="button" onClick={() => setModalActionType('job')} className={`flex-1 px-6 py-3 font-semibold rounded-md transition-all duration-200 ${modalActionType === 'job' ? 'bg-blue-500 text-black' : 'text-gray-400 hover:text-gray-200'}`}>Add Job</button>
-                <button type="button" onClick={() => setModalActionType('user')} className={`flex-1 px-6 py-3 font-semibold rounded-md transition-all duration-200 ${modalActionType === 'user' ? 'bg-[#FFA116] text-black' : 'text-gray-400 hover:text-gray-200'}`}>Add User</button>
+                {isAdmin(member) && (
+                  <button type="button" onClick={() => setModalActionType('user')} className={`flex-1 px-6 py-3 font-semibold rounded-md transition-all duration-200 ${modalActionType === 'user' ? 'bg-[#FFA116] text-black' : 'text-gray-400 hover:text-gray-200'}`}>Add User</button>
+                )}
               </div>
 
               {modalActionType === 'job' && (
@@ -1117,12 +1144,13 @@ function App() {
                     <div>
                       <label className="block text-sm font-medium text-gray-400 mb-2">Username</label>
                       <select value={selectedJobUsername} onChange={(e) => setSelectedJobUsername(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-blue-400">
-                        {users.length === 0 ? <option value="">No users available</option> : users.map(u => <option key={u.username} value={u.username}>{u.username}</option>)}
+                        {users.length === 0 ? <option value="">No users available</option> : users.filter(u => canManageJobsOf(member, u.username)).map(u => <option key={u.username} value={u.username}>{u.username}</option>)}
                       </select>
                     </div>
                     <div><label className="block text-sm font-medium text-gray-400 mb-2">Job Title</label><input type="text" value={jobTitle} onChange={(e) => setJobTitle(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-blue-400" /></div>
                     <div><label className="block text-sm font-medium text-gray-400 mb-2">Company</label><input type="text" value={jobCompany} onChange={(e) => setJobCompany(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-blue-400" /></div>
                     <div><label className="block text-sm font-medium text-gray-400 mb-2">Job URL</label><input type="url" value={jobUrl} onChange={(e) => setJobUrl(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-blue-400" /></div>
+                    <JobMatchList matches={newJobMatches} username={selectedJobUsername} />
                   </div>
                   <div className="flex gap-3">
                     <button type="button" onClick={() => setShowUnifiedModal(false)} className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg">Cancel</button>
@@ -1131,7 +1159,7 @@ function App() {
                 </form>
               )}
 
-              {modalActionType === 'user' && (
+              {modalActionType === 'user' && isAdmin(member) && (
                 <form onSubmit={async (e) => { e.preventDefault(); if (await addUser()) setShowUnifiedModal(false); }} className="space-y-4 flex-1 flex flex-col justify-between">
                   <div className="space-y-4">
                     <div><label className="block text-sm font-medium text-gray-400 mb-2">LeetCode Username</label><input type="text" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]" /></div>
@@ -1147,81 +1175,104 @@ function App() {
           </div>
         )}
 
-        {/* Leaderboard Modal */}
-        {showLeaderboardModal && (
-          <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={() => setShowLeaderboardModal(false)}>
-            <div className="bg-[#262626] rounded-xl p-6 max-w-lg w-full mx-4 shadow-2xl border border-gray-800" onClick={(e) => e.stopPropagation()}>
-              <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
-                <FaTrophy className="text-[#FFA116]" />
-                Previous {leaderboardModalType ? (leaderboardModalType.charAt(0).toUpperCase() + leaderboardModalType.slice(1)) : ''} Leaders
-              </h2>
+        {/* XP Scoring Rules */}
+        {showScoringModal && (
+          <ScoringSettingsModal
+            rules={scoringRules}
+            pipeline={pipeline}
+            onClose={() => setShowScoringModal(false)}
+            onSaved={(rules) => {
+              setScoringRules(rules);
+              setShowScoringModal(false);
+              loadAllData();
+            }}
+          />
+        )}
 
-              <div className="overflow-y-auto max-h-[60vh]">
-                <table className="min-w-full">
-                  <thead className="bg-[#1a1a1a] sticky top-0">
-                    <tr>
-                      <th className="px-4 py-3 text-left text-xs font-bold text-gray-400 uppercase">Rank</th>
-                      <th className="px-4 py-3 text-left text-xs font-bold text-gray-400 uppercase">User</th>
-                      <th className="px-4 py-3 text-right text-xs font-bold text-[#9B5CF6] uppercase">XP Earned</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-800">
-                    {loadingPrevStats ? (
-                      <tr>
-                        <td colSpan={3} className="px-4 py-8 text-center text-gray-400">
-                          <IoMdRefresh className="animate-spin h-8 w-8 text-[#FFA116] mx-auto mb-2" />
-                          Loading previous stats...
-                        </td>
-                      </tr>
-                    ) : prevDataMissing ? (
-                      <tr>
-                        <td colSpan={3} className="px-4 py-8 text-center text-gray-400 bg-yellow-900/10 rounded-lg">
-                          <div className="flex flex-col items-center gap-2">
-                            <IoMdAlert className="text-yellow-500 text-2xl" />
-                            <span className="font-medium text-yellow-200">Data Unavailable</span>
-                            <span className="text-sm">
-                              Historical data for this period hasn't been captured yet.
-                              Wait for the next reset cycle!
-                            </span>
-                          </div>
-                        </td>
-                      </tr>
-                    ) : prevLeaderboardStats.length === 0 ? (
-                      <tr>
-                        <td colSpan={3} className="px-4 py-8 text-center text-gray-400">
-                          No XP earned during this period.
-                        </td>
-                      </tr>
-                    ) : (
-                      prevLeaderboardStats.map((user) => (
-                        <tr key={user.username} className="hover:bg-[#333]">
-                          <td className="px-4 py-3 text-white font-mono">
-                            <span className={`font-bold ${user.rank === 1 ? 'text-yellow-400 text-xl' :
-                              user.rank === 2 ? 'text-gray-300 text-lg' :
-                                user.rank === 3 ? 'text-amber-600 text-lg' :
-                                  'text-gray-400'
-                              }`}>
-                              #{user.rank}
-                            </span>
-                          </td>
-                          <td className="px-4 py-3 text-white font-medium">{user.name || user.username}</td>
-                          <td className="px-4 py-3 text-right font-bold text-[#9B5CF6]">{user.xp} XP</td>
-                        </tr>
-                      )))}
-                  </tbody>
-                </table>
-              </div>
+        {/* Job Details */}
+        {selectedJob && (
+          <JobDetailsModal
+            job={selectedJob}
+            matches={findMatchingJobs(selectedJob, allJobs.filter(job => job.id !== selectedJob.id))}
+            editable={canManageJobsOf(member, selectedJob.username)}
+            onClose={() => setSelectedJobId(null)}
+            onSaved={(saved) => {
+              setAllJobs(prevJobs => prevJobs.map(job => job.id === saved.id ? saved : job));
+              setSelectedJobId(null);
+            }}
+          />
+        )}
 
-              <div className="mt-6 flex justify-end">
-                <button
-                  onClick={() => setShowLeaderboardModal(false)}
-                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
-                >
-                  Close
-                </button>
-              </div>
-            </div>
-          </div>
+        {/* Job Pipeline */}
+        {showPipelineModal && (
+          <PipelineSettingsModal
+            pipeline={pipeline}
+            onClose={() => setShowPipelineModal(false)}
+            onSaved={(saved) => {
+              setPipeline(saved);
+              setShowPipelineModal(false);
+            }}
+          />
+        )}
+
+        {/* Job Import */}
+        {showImportModal && member && (
+          <JobImportModal
+            users={users}
+            jobs={allJobs}
+            member={member}
+            pipeline={pipeline}
+            onClose={() => setShowImportModal(false)}
+            onImported={async () => {
+              const updatedUsers = await loadUsersFromFirestore();
+              await loadAllStats(updatedUsers);
+            }}
+          />
+        )}
+
+        {/* Member Management */}
+        {showMemberModal && isAdmin(member) && (
+          <MemberManagementModal
+            onClose={() => setShowMemberModal(false)}
+            onChanged={() => loadAllData()}
+          />
+        )}
+
+        {/* Leaderboard History */}
+        {route.history && activeTab !== 'all' && activeTab !== 'jobs' && activeTab !== 'analytics' && activeTab !== 'custom' && (
+          <PeriodHistoryModal
+            period={activeTab}
+            jobs={allJobs}
+            periodKey={route.history.periodKey}
+            onPeriodKeyChange={(periodKey) => navigate({ tab: activeTab, history: { periodKey } })}
+            onClose={() => navigate({ tab: activeTab })}
+          />
+        )}
+
+        {/* Link a fresh sign-in to a username */}
+        {authState.signedIn && !account && (
+          <LinkAccountModal users={users} email={authState.email} />
+        )}
+
+        {/* Join or create a group */}
+        {showGroupModal && isApproved(account) && (
+          <GroupModal
+            account={account}
+            onClose={() => setShowGroupModal(false)}
+            onJoined={(group) => {
+              setShowGroupModal(false);
+              switchGroup(group.id);
+            }}
+          />
+        )}
+
+        {/* User Profile */}
+        {route.profile && userStats.some(u => u.username === route.profile) && (
+          <UserProfileModal
+            user={userStats.find(u => u.username === route.profile)!}
+            jobs={allJobs}
+            onClose={() => navigate({ tab: activeTab })}
+          />
         )}
 
       </div>
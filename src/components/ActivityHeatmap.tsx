@@ -0,0 +1,85 @@
+import { addDays, format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { SubmissionCalendar } from '../types';
+import { getUtcDayKey } from '../utils/activityUtils';
+
+interface ActivityHeatmapProps {
+  calendar: SubmissionCalendar;
+  weeks?: number;
+}
+
+const CELL_SIZE = 11;
+const CELL_GAP = 3;
+const LABEL_WIDTH = 28;
+const HEADER_HEIGHT = 16;
+
+// GitHub-style buckets
+const getCellColor = (count: number): string => {
+  if (count <= 0) return '#2d2d2d';
+  if (count <= 2) return '#0e4429';
+  if (count <= 5) return '#006d32';
+  if (count <= 9) return '#26a641';
+  return '#39d353';
+};
+
+export default function ActivityHeatmap({ calendar, weeks = 53 }: ActivityHeatmapProps) {
+  const today = parseISO(getUtcDayKey());
+  const firstDay = startOfWeek(subWeeks(today, weeks - 1));
+
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => addDays(firstDay, week * 7 + weekday))
+  );
+
+  const width = LABEL_WIDTH + weeks * (CELL_SIZE + CELL_GAP);
+  const height = HEADER_HEIGHT + 7 * (CELL_SIZE + CELL_GAP);
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width} height={height} role="img" aria-label="Submission activity heatmap">
+        {/* Weekday labels */}
+        {['Mon', 'Wed', 'Fri'].map((label, i) => (
+          <text
+            key={label}
+            x={0}
+            y={HEADER_HEIGHT + (i * 2 + 1) * (CELL_SIZE + CELL_GAP) + CELL_SIZE - 2}
+            className="fill-gray-500"
+            fontSize={9}
+          >
+            {label}
+          </text>
+        ))}
+
+        {columns.map((days, week) => {
+          const x = LABEL_WIDTH + week * (CELL_SIZE + CELL_GAP);
+          // Label a month above the first week that starts in it
+          const monthLabel = days[0].getDate() <= 7 ? format(days[0], 'MMM') : null;
+
+          return (
+            <g key={week}>
+              {monthLabel && (
+                <text x={x} y={10} className="fill-gray-500" fontSize={9}>{monthLabel}</text>
+              )}
+              {days.map((day, weekday) => {
+                if (day > today) return null;
+                const key = format(day, 'yyyy-MM-dd');
+                const count = calendar[key] || 0;
+                return (
+                  <rect
+                    key={key}
+                    x={x}
+                    y={HEADER_HEIGHT + weekday * (CELL_SIZE + CELL_GAP)}
+                    width={CELL_SIZE}
+                    height={CELL_SIZE}
+                    rx={2}
+                    fill={getCellColor(count)}
+                  >
+                    <title>{`${count} submission${count === 1 ? '' : 's'} on ${format(day, 'MMM d, yyyy')}`}</title>
+                  </rect>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { IoMdRefresh, IoMdAlert } from 'react-icons/io';
+import { format, parseISO, subDays } from 'date-fns';
+import LeaderboardTable from './LeaderboardTable';
+import { Job, RangeLeaderboard, UserStats } from '../types';
+import { getNow, getDailyPeriodKey } from '../utils/dateUtils';
+import { loadRangeLeaderboard, MAX_BASELINE_DISTANCE_DAYS } from '../utils/rangeUtils';
+
+interface CustomRangeLeaderboardProps {
+  userStats: UserStats[];
+  jobs: Job[];
+}
+
+const formatDay = (day: string) => format(parseISO(day), 'MMM d, yyyy');
+
+export default function CustomRangeLeaderboard({ userStats, jobs }: CustomRangeLeaderboardProps) {
+  const [startDate, setStartDate] = useState<string>(getDailyPeriodKey(subDays(getNow(), 13)));
+  const [endDate, setEndDate] = useState<string>(getDailyPeriodKey());
+  const [result, setResult] = useState<RangeLeaderboard | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const rangeInvalid = !startDate || !endDate || startDate > endDate;
+
+  const handleApply = async () => {
+    if (rangeInvalid) return;
+    setLoading(true);
+    try {
+      setResult(await loadRangeLeaderboard(startDate, endDate, userStats, jobs));
+    } catch (error) {
+      console.error('Error loading custom range leaderboard:', error);
+      setResult(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <form
+        onSubmit={(e) => { e.preventDefault(); handleApply(); }}
+        className="mb-4 flex flex-wrap items-end gap-3"
+      >
+        <div>
+          <label htmlFor="range-start" className="block text-sm font-medium text-gray-400 mb-2">From</label>
+          <input
+            id="range-start"
+            type="date"
+            value={startDate}
+            max={endDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-4 py-2 bg-[#262626] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-teal-400 transition-colors"
+          />
+        </div>
+        <div>
+          <label htmlFor="range-end" className="block text-sm font-medium text-gray-400 mb-2">To</label>
+          <input
+            id="range-end"
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-4 py-2 bg-[#262626] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-teal-400 transition-colors"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={rangeInvalid || loading || userStats.length === 0}
+          className="px-6 py-2 bg-teal-500 hover:bg-teal-400 disabled:bg-gray-700 disabled:cursor-not-allowed text-black font-semibold rounded-lg transition-all duration-200"
+        >
+          {loading ? 'Loading...' : 'Show Leaderboard'}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-32">
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 mb-6">
+              <IoMdRefresh className="animate-spin h-16 w-16 text-[#FFA116]" />
+            </div>
+            <p className="text-gray-400 text-xl font-medium">Loading range progress...</p>
+          </div>
+        </div>
+      ) : result && (
+        <>
+          {result.approximate.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg text-yellow-200 text-sm">
+              <div className="font-semibold flex items-center gap-2 mb-1">
+                <IoMdAlert /> Approximate results
+              </div>
+              No data was captured on some of the chosen days, so the closest stored baseline was used:
+              <ul className="mt-1 list-disc list-inside">
+                {result.approximate.map(note => (
+                  <li key={`${note.username}-${note.requestedDate}`}>
+                    {note.name || note.username}: {formatDay(note.requestedDate)} → {note.usedDate && formatDay(note.usedDate)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {result.missing.length > 0 && (
+            <div className="mb-4 p-3 bg-red-900/20 border border-red-700/50 rounded-lg text-red-200 text-sm">
+              <div className="font-semibold flex items-center gap-2 mb-1">
+                <IoMdAlert /> Missing data
+              </div>
+              No baseline within {MAX_BASELINE_DISTANCE_DAYS} days of these dates, so these users are not ranked:
+              <ul className="mt-1 list-disc list-inside">
+                {result.missing.map(note => (
+                  <li key={note.username}>
+                    {note.name || note.username} (around {formatDay(note.requestedDate)})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {result.stats.length > 0 && <LeaderboardTable userStats={result.stats} />}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { FaArrowRight } from 'react-icons/fa';
+import LineChart from './LineChart';
+import { AnalyticsFilter, FirestoreUser, Job, JobPipeline } from '../types';
+import { computeFunnelAnalytics, filterJobsForAnalytics } from '../utils/analyticsUtils';
+import { STAGE_COLORS, getStageColor } from '../utils/jobUtils';
+
+interface FunnelAnalyticsProps {
+  jobs: Job[];
+  users: FirestoreUser[];
+  pipeline: JobPipeline;
+  filter: AnalyticsFilter;
+  onFilterChange: (filter: AnalyticsFilter) => void;
+}
+
+const formatRate = (rate: number | null) => rate === null ? '–' : `${Math.round(rate * 100)}%`;
+const formatDays = (days: number | null) => days === null ? '–' : `${days < 10 ? days.toFixed(1) : Math.round(days)}d`;
+
+const inputClass = 'px-3 py-2 bg-[#262626] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-cyan-400 transition-colors';
+const cardClass = 'bg-[#262626] rounded-xl border border-gray-800 p-5';
+const headingClass = 'text-xs font-bold text-gray-400 uppercase tracking-wider mb-3';
+
+export default function FunnelAnalytics({ jobs, users, pipeline, filter, onFilterChange }: FunnelAnalyticsProps) {
+  const scopedJobs = filterJobsForAnalytics(jobs, filter);
+  const analytics = computeFunnelAnalytics(scopedJobs, pipeline);
+  const widest = Math.max(1, ...analytics.stages.map(stage => stage.reached));
+
+  // Per-member comparison, only when looking at the whole group
+  const memberRows = filter.username ? [] : users
+    .map(user => ({ user, analytics: computeFunnelAnalytics(scopedJobs.filter(job => job.username === user.username), pipeline) }))
+    .filter(row => row.analytics.applications > 0)
+    .sort((a, b) => b.analytics.applications - a.analytics.applications);
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={filter.username ?? 'all'}
+          onChange={(e) => onFilterChange({ ...filter, username: e.target.value === 'all' ? undefined : e.target.value })}
+          aria-label="Member"
+          className={inputClass}
+        >
+          <option value="all">Whole group</option>
+          {users.map(user => <option key={user.username} value={user.username}>{user.username}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Added from
+          <input type="date" value={filter.from ?? ''} max={filter.to} onChange={(e) => onFilterChange({ ...filter, from: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          to
+          <input type="date" value={filter.to ?? ''} min={filter.from} onChange={(e) => onFilterChange({ ...filter, to: e.target.value || undefined })} className={inputClass} />
+        </label>
+      </div>
+
+      {analytics.applications === 0 ? (
+        <div className="text-center py-20">
+          <h3 className="text-2xl font-bold text-white mb-3">No Jobs In This Range</h3>
+        </div>
+      ) : (
+        <>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className={cardClass}>
+              <div className={headingClass}>Applications</div>
+              <div className="text-3xl font-bold text-white">{analytics.applications}</div>
+            </div>
+            <div className={cardClass}>
+              <div className={headingClass}>Response Rate</div>
+              <div className="text-3xl font-bold text-cyan-400">{formatRate(analytics.responseRate)}</div>
+            </div>
+            <div className={cardClass}>
+              <div className={headingClass}>Reached {analytics.stages[analytics.stages.length - 1]?.stage ?? 'the end'}</div>
+              <div className="text-3xl font-bold text-yellow-400">{analytics.stages[analytics.stages.length - 1]?.reached ?? 0}</div>
+            </div>
+          </div>
+
+          {/* Funnel */}
+          <div className={cardClass}>
+            <div className={headingClass}>Funnel</div>
+            <div className="space-y-3">
+              {analytics.stages.map(stage => (
+                <div key={stage.stage} className="flex items-center gap-4">
+                  <div className={`w-28 text-sm font-semibold truncate ${STAGE_COLORS[getStageColor(stage.stage, pipeline)].text}`}>{stage.stage}</div>
+                  <div className="flex-1 bg-[#1a1a1a] rounded h-6">
+                    <div
+                      className={`h-6 rounded ${STAGE_COLORS[getStageColor(stage.stage, pipeline)].badge}`}
+                      style={{ width: `${(stage.reached / widest) * 100}%` }}
+                    />
+                  </div>
+                  <div className="w-12 text-right text-white font-mono">{stage.reached}</div>
+                  <div className="w-24 text-sm text-gray-400 flex items-center gap-1" title="Reached the next stage">
+                    {stage.conversion !== null && <><FaArrowRight className="text-gray-600" /> {formatRate(stage.conversion)}</>}
+                  </div>
+                  <div className="w-24 text-sm text-gray-400 text-right" title="Median time in this stage">
+                    {formatDays(stage.medianDays)}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="mt-3 text-xs text-gray-500">
+              Arrows show the share that reached the next stage; the last column is the median time spent in a stage, from status history.
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className={cardClass}>
+              <div className={headingClass}>Applications per Week</div>
+              <LineChart
+                labels={analytics.perWeek.map(week => week.weekKey)}
+                series={[{ label: 'Applications', color: '#22D3EE', values: analytics.perWeek.map(week => week.count) }]}
+              />
+            </div>
+            <div className={cardClass}>
+              <div className={headingClass}>Best Response Rates</div>
+              {analytics.topCompanies.length === 0 ? (
+                <p className="text-sm text-gray-500">No company with two or more applications has replied yet.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <tbody className="divide-y divide-gray-800">
+                    {analytics.topCompanies.map(company => (
+                      <tr key={company.company}>
+                        <td className="py-2 text-white truncate">{company.company}</td>
+                        <td className="py-2 text-gray-400 text-right">{company.responses}/{company.applications}</td>
+                        <td className="py-2 text-cyan-400 text-right font-semibold">{formatRate(company.rate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          {/* Members */}
+          {memberRows.length > 0 && (
+            <div className="overflow-hidden rounded-xl border border-gray-800 shadow-2xl">
+              <table className="min-w-full">
+                <thead className="bg-[#262626]">
+                  <tr>
+                    <th className="px-6 py-4 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Member</th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">Applications</th>
+                    <th className="px-6 py-4 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">Response</th>
+                    {analytics.stages.slice(0, -1).map((stage, i) => (
+                      <th key={stage.stage} className="px-6 py-4 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">
+                        {stage.stage} → {analytics.stages[i + 1].stage}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {memberRows.map(({ user, analytics: memberAnalytics }, index) => (
+                    <tr key={user.username} className={`${index % 2 === 0 ? 'bg-[#262626]' : 'bg-[#2d2d2d]'} hover:bg-[#333333] transition-colors duration-150`}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <button onClick={() => onFilterChange({ ...filter, username: user.username })} className="font-semibold text-white hover:text-cyan-400 transition-colors">
+                          {user.username}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 text-right text-white font-mono">{memberAnalytics.applications}</td>
+                      <td className="px-6 py-4 text-right text-cyan-400">{formatRate(memberAnalytics.responseRate)}</td>
+                      {memberAnalytics.stages.slice(0, -1).map(stage => (
+                        <td key={stage.stage} className="px-6 py-4 text-right text-gray-300">{formatRate(stage.conversion)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
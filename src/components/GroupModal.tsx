@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { FaUsers } from 'react-icons/fa';
+import { Account, Group } from '../types';
+import { createGroup, joinGroup } from '../utils/groupUtils';
+
+interface GroupModalProps {
+  account: Account;
+  onClose: () => void;
+  onJoined: (group: Group) => void;
+}
+
+export default function GroupModal({ account, onClose, onJoined }: GroupModalProps) {
+  const [mode, setMode] = useState<'join' | 'create'>('join');
+  const [inviteCode, setInviteCode] = useState<string>('');
+  const [groupName, setGroupName] = useState<string>('');
+  const [displayName, setDisplayName] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const value = mode === 'join' ? inviteCode.trim() : groupName.trim();
+
+  const handleSubmit = async () => {
+    if (!value || !displayName.trim()) return;
+    setSaving(true);
+    try {
+      const group = mode === 'join'
+        ? await joinGroup(value, account, displayName.trim())
+        : await createGroup(value, account, displayName.trim());
+      onJoined(group);
+    } catch (error) {
+      console.error(`Error ${mode === 'join' ? 'joining' : 'creating'} group:`, error);
+      alert(error instanceof Error && mode === 'join' ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+          <FaUsers className="text-[#FFA116]" />
+          Groups
+        </h2>
+        <div className="flex gap-2 mb-6 bg-[#1a1a1a] p-1 rounded-lg">
+          <button type="button" onClick={() => setMode('join')} className={`flex-1 px-6 py-3 font-semibold rounded-md transition-all duration-200 ${mode === 'join' ? 'bg-[#FFA116] text-black' : 'text-gray-400 hover:text-gray-200'}`}>Join Group</button>
+          <button type="button" onClick={() => setMode('create')} className={`flex-1 px-6 py-3 font-semibold rounded-md transition-all duration-200 ${mode === 'create' ? 'bg-[#FFA116] text-black' : 'text-gray-400 hover:text-gray-200'}`}>New Group</button>
+        </div>
+
+        <form onSubmit={(e) => { e.preventDefault(); handleSubmit(); }} className="space-y-4">
+          {mode === 'join' ? (
+            <div><label className="block text-sm font-medium text-gray-400 mb-2">Invite Code</label><input type="text" value={inviteCode} onChange={(e) => setInviteCode(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116] font-mono uppercase" /></div>
+          ) : (
+            <div><label className="block text-sm font-medium text-gray-400 mb-2">Group Name</label><input type="text" value={groupName} onChange={(e) => setGroupName(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]" /></div>
+          )}
+          <div><label className="block text-sm font-medium text-gray-400 mb-2">Your Display Name</label><input type="text" value={displayName} onChange={(e) => setDisplayName(e.target.value)} className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]" /></div>
+          <p className="text-sm text-gray-500">
+            You'll appear as {account.username}, with a separate job count in this group.
+          </p>
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg">Cancel</button>
+            <button type="submit" disabled={!value || !displayName.trim() || saving} className="flex-1 px-4 py-3 bg-[#FFA116] hover:bg-[#FFB84D] disabled:bg-gray-700 text-black font-semibold rounded-lg">{saving ? 'Saving...' : mode === 'join' ? 'Join' : 'Create'}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { FaUsers, FaPlus } from 'react-icons/fa';
+import { Group } from '../types';
+
+interface GroupSwitcherProps {
+  groups: Group[];
+  activeGroupId: string;
+  inviteCode: string | null; // shown to admins only
+  onSwitch: (groupId: string) => void;
+  onAddGroup?: () => void; // omitted when the visitor can't join or create groups
+}
+
+export default function GroupSwitcher({ groups, activeGroupId, inviteCode, onSwitch, onAddGroup }: GroupSwitcherProps) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <FaUsers className="text-[#FFA116]" />
+      <select
+        value={activeGroupId}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="px-3 py-1.5 bg-[#262626] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]"
+        aria-label="Switch group"
+      >
+        {groups.map(group => (
+          <option key={group.id} value={group.id}>{group.name}</option>
+        ))}
+      </select>
+      {onAddGroup && (
+        <button
+          onClick={onAddGroup}
+          className="p-2 text-gray-400 hover:text-[#FFA116] transition-colors"
+          aria-label="Join or create a group"
+          title="Join or create a group"
+        >
+          <FaPlus />
+        </button>
+      )}
+      {inviteCode && (
+        <span className="text-gray-500" title="Share this code to invite people">
+          Invite: <span className="font-mono text-gray-300">{inviteCode}</span>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { FaBriefcase, FaPlus, FaTrash } from 'react-icons/fa';
+import JobMatchList from './JobMatchList';
+import { Job, JobContact, JobDetails, JobMatch } from '../types';
+import { loadPrivateJobDetails, saveJobDetails, splitPrivateDetails } from '../utils/jobUtils';
+
+interface JobDetailsModalProps {
+  job: Job;
+  matches: JobMatch[]; // the same posting logged by this user or teammates
+  editable: boolean; // owners and admins edit, everyone else reads (but not notes and contacts)
+  onClose: () => void;
+  onSaved: (job: Job) => void;
+}
+
+const CONTACT_ROLES: JobContact['role'][] = ['Recruiter', 'Referrer', 'Other'];
+
+const inputClass = 'w-full px-3 py-2 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116] disabled:text-gray-400';
+const labelClass = 'block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2';
+
+export default function JobDetailsModal({ job, matches, editable, onClose, onSaved }: JobDetailsModalProps) {
+  const [notes, setNotes] = useState<string>('');
+  const [contacts, setContacts] = useState<JobContact[]>([]);
+  // Notes and contacts load separately; saving before they have would wipe them
+  const [privateDetails, setPrivateDetails] = useState<'loading' | 'loaded' | 'failed'>('loading');
+  const [assessmentDeadline, setAssessmentDeadline] = useState<string>(job.assessmentDeadline ?? '');
+  const [interviewDates, setInterviewDates] = useState<string[]>(job.interviewDates ?? []);
+  const [followUpOn, setFollowUpOn] = useState<string>(job.followUpOn ?? '');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!editable) return;
+    loadPrivateJobDetails(job)
+      .then(details => {
+        setNotes(details.notes ?? '');
+        setContacts(details.contacts ?? []);
+        setPrivateDetails('loaded');
+      })
+      .catch(error => {
+        console.error('Error loading job notes and contacts:', error);
+        setPrivateDetails('failed');
+      });
+  }, [job, editable]);
+
+  const updateContact = (index: number, changes: Partial<JobContact>) => {
+    setContacts(prev => prev.map((contact, i) => i === index ? { ...contact, ...changes } : contact));
+  };
+
+  const handleSave = async () => {
+    const details: JobDetails = {
+      notes: notes.trim(),
+      // Firestore rejects undefined, so a blank contact field is dropped rather than kept empty
+      contacts: contacts
+        .filter(contact => contact.name.trim())
+        .map(({ name, role, contact }) => contact?.trim() ? { name: name.trim(), role, contact: contact.trim() } : { name: name.trim(), role }),
+      assessmentDeadline,
+      interviewDates: interviewDates.filter(Boolean).sort(),
+      followUpOn,
+    };
+    setSaving(true);
+    try {
+      await saveJobDetails(job, details);
+      onSaved(splitPrivateDetails({ ...job, ...details }).publicFields);
+    } catch (error) {
+      console.error('Error saving job details:', error);
+      alert('Failed to save job details. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-xl w-full mx-4 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-3">
+          <FaBriefcase className="text-[#FFA116]" />
+          {job.title}
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">{job.company} · {job.username} · {job.status}</p>
+        {matches.length > 0 && (
+          <div className="mb-6">
+            <JobMatchList matches={matches} username={job.username} />
+          </div>
+        )}
+
+        <form onSubmit={(e) => { e.preventDefault(); handleSave(); }} className="space-y-5">
+          <fieldset disabled={!editable} className="space-y-5">
+            {!editable && (
+              <p className="text-sm text-gray-500">Notes and contacts are only shown to {job.username} and admins.</p>
+            )}
+            {editable && privateDetails === 'loading' && (
+              <p className="text-sm text-gray-500">Loading notes and contacts...</p>
+            )}
+            {editable && privateDetails === 'failed' && (
+              <p className="text-sm text-red-400">Couldn't load the notes and contacts, so they can't be saved. Close and try again.</p>
+            )}
+            {editable && privateDetails === 'loaded' && (
+              <>
+                <div>
+                  <label htmlFor="job-notes" className={labelClass}>Notes</label>
+                  <textarea
+                    id="job-notes"
+                    rows={4}
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div>
+                  <span className={labelClass}>Contacts</span>
+                  <div className="space-y-2">
+                    {contacts.map((contact, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          type="text"
+                          value={contact.name}
+                          onChange={(e) => updateContact(index, { name: e.target.value })}
+                          placeholder="Name"
+                          aria-label="Contact name"
+                          className={inputClass}
+                        />
+                        <select
+                          value={contact.role}
+                          onChange={(e) => updateContact(index, { role: e.target.value as JobContact['role'] })}
+                          aria-label="Contact role"
+                          className="px-2 py-2 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]"
+                        >
+                          {CONTACT_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                        </select>
+                        <input
+                          type="text"
+                          value={contact.contact ?? ''}
+                          onChange={(e) => updateContact(index, { contact: e.target.value })}
+                          placeholder="Email, phone or link"
+                          aria-label="Contact details"
+                          className={inputClass}
+                        />
+                        <button type="button" onClick={() => setContacts(prev => prev.filter((_, i) => i !== index))} className="p-1 text-gray-400 hover:text-red-500" aria-label="Remove contact"><FaTrash /></button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setContacts(prev => [...prev, { name: '', role: 'Recruiter' }])}
+                      className="flex items-center gap-2 text-sm text-gray-400 hover:text-[#FFA116] transition-colors"
+                    >
+                      <FaPlus /> Add contact
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="job-assessment-deadline" className={labelClass}>Assessment Deadline</label>
+                <input
+                  id="job-assessment-deadline"
+                  type="date"
+                  value={assessmentDeadline}
+                  onChange={(e) => setAssessmentDeadline(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="job-follow-up" className={labelClass}>Follow Up On</label>
+                <input
+                  id="job-follow-up"
+                  type="date"
+                  value={followUpOn}
+                  onChange={(e) => setFollowUpOn(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <span className={labelClass}>Interviews</span>
+              <div className="space-y-2">
+                {interviewDates.map((interview, index) => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      type="datetime-local"
+                      value={interview}
+                      onChange={(e) => setInterviewDates(prev => prev.map((d, i) => i === index ? e.target.value : d))}
+                      aria-label="Interview date"
+                      className={inputClass}
+                    />
+                    {editable && (
+                      <button type="button" onClick={() => setInterviewDates(prev => prev.filter((_, i) => i !== index))} className="p-1 text-gray-400 hover:text-red-500" aria-label="Remove interview"><FaTrash /></button>
+                    )}
+                  </div>
+                ))}
+                {editable && (
+                  <button
+                    type="button"
+                    onClick={() => setInterviewDates(prev => [...prev, ''])}
+                    className="flex items-center gap-2 text-sm text-gray-400 hover:text-[#FFA116] transition-colors"
+                  >
+                    <FaPlus /> Add interview
+                  </button>
+                )}
+                {!editable && interviewDates.length === 0 && <p className="text-sm text-gray-500">None</p>}
+              </div>
+            </div>
+          </fieldset>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg">{editable ? 'Cancel' : 'Close'}</button>
+            {editable && (
+              <button type="submit" disabled={saving || privateDetails !== 'loaded'} className="flex-1 px-4 py-3 bg-[#FFA116] hover:bg-[#FFB84D] disabled:bg-gray-700 text-black font-semibold rounded-lg">{saving ? 'Saving...' : 'Save Details'}</button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
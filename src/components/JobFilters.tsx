@@ -0,0 +1,84 @@
+import { FaSearch, FaTimes } from 'react-icons/fa';
+import { JobPipeline, JobsQuery } from '../types';
+import { STAGE_COLORS } from '../utils/jobUtils';
+
+interface JobFiltersProps {
+  query: JobsQuery;
+  pipeline: JobPipeline;
+  onChange: (changes: Partial<JobsQuery>) => void;
+}
+
+const inputClass = 'px-3 py-2 bg-[#262626] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-blue-400 transition-colors';
+
+export default function JobFilters({ query, pipeline, onChange }: JobFiltersProps) {
+  const statuses = query.statuses ?? [];
+  const filtered = !!(query.search || statuses.length || query.from || query.to);
+
+  const toggleStatus = (status: string) => {
+    const next = statuses.includes(status) ? statuses.filter(s => s !== status) : [...statuses, status];
+    onChange({ statuses: next.length ? next : undefined });
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={query.search ?? ''}
+            onChange={(e) => onChange({ search: e.target.value || undefined })}
+            placeholder="Search title or company"
+            aria-label="Search jobs"
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Added from
+          <input
+            type="date"
+            value={query.from ?? ''}
+            max={query.to}
+            onChange={(e) => onChange({ from: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          to
+          <input
+            type="date"
+            value={query.to ?? ''}
+            min={query.from}
+            onChange={(e) => onChange({ to: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </label>
+        {filtered && (
+          <button
+            onClick={() => onChange({ search: undefined, statuses: undefined, from: undefined, to: undefined })}
+            className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <FaTimes /> Clear
+          </button>
+        )}
+      </div>
+
+      {/* Status chips; none selected shows every status */}
+      <div className="flex flex-wrap gap-2">
+        {pipeline.stages.map(stage => {
+          const selected = statuses.includes(stage.name);
+          return (
+            <button
+              key={stage.name}
+              onClick={() => toggleStatus(stage.name)}
+              aria-pressed={selected}
+              className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${selected ? STAGE_COLORS[stage.color].badge : 'bg-[#262626] text-gray-400 hover:text-white border border-gray-700'}`}
+            >
+              {stage.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
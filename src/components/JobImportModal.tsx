@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { FaFileImport } from 'react-icons/fa';
+import { FirestoreUser, GroupMember, Job, JobImportField, JobImportMapping, JobPipeline } from '../types';
+import { guessImportMapping, importJobs, parseCsv, prepareJobImport } from '../utils/csvUtils';
+import { canManageJobsOf } from '../utils/authUtils';
+
+interface JobImportModalProps {
+  users: FirestoreUser[];
+  jobs: Job[]; // the group's current jobs, to flag duplicates
+  member: GroupMember | null;
+  pipeline: JobPipeline;
+  onClose: () => void;
+  onImported: () => void; // reload the board; the modal closes itself once every job is in
+}
+
+const FIELDS: { field: JobImportField; label: string; required?: boolean }[] = [
+  { field: 'username', label: 'Username' },
+  { field: 'title', label: 'Title', required: true },
+  { field: 'company', label: 'Company', required: true },
+  { field: 'url', label: 'URL' },
+  { field: 'status', label: 'Status' },
+  { field: 'createdAt', label: 'Date Applied' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'assessmentDeadline', label: 'Assessment Deadline' },
+  { field: 'followUpOn', label: 'Follow Up On' },
+];
+
+const selectClass = 'w-full px-3 py-2 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]';
+const headerClass = 'px-3 py-2 text-left text-xs font-bold text-gray-400 uppercase tracking-wider';
+
+export default function JobImportModal({ users, jobs, member, pipeline, onClose, onImported }: JobImportModalProps) {
+  const [fileName, setFileName] = useState<string>('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<JobImportMapping>({});
+  const [defaultUsername, setDefaultUsername] = useState<string>(member?.username ?? '');
+  const [skipDuplicates, setSkipDuplicates] = useState<boolean>(true);
+  const [importing, setImporting] = useState<boolean>(false);
+  // Lines already imported, and why others failed, so a retry only sends the failed ones
+  const [importedLines, setImportedLines] = useState<Set<number>>(new Set());
+  const [failedLines, setFailedLines] = useState<Map<number, string>>(new Map());
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow) {
+      alert(`${file.name} is empty.`);
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(headerRow.map(header => header.trim()));
+    setRows(dataRows);
+    setMapping(guessImportMapping(headerRow));
+    setImportedLines(new Set());
+    setFailedLines(new Map());
+  };
+
+  const preview = prepareJobImport(rows, mapping, {
+    users,
+    existingJobs: jobs,
+    canImportFor: (username) => canManageJobsOf(member, username),
+    defaultUsername,
+    pipeline,
+  });
+  const toImport = preview.filter(row => row.job && !importedLines.has(row.line) && !(skipDuplicates && row.duplicate));
+  const invalidCount = preview.filter(row => !row.job).length;
+  const duplicateCount = preview.filter(row => row.duplicate && !importedLines.has(row.line)).length;
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const failures = await importJobs(toImport.map(row => row.job!), users);
+      const imported = toImport.filter((_, index) => !failures.has(index)).map(row => row.line);
+      setImportedLines(prev => new Set([...prev, ...imported]));
+      setFailedLines(new Map([...failures].map(([index, reason]) => [toImport[index].line, reason])));
+      if (imported.length > 0) onImported();
+      if (failures.size === 0) onClose();
+    } catch (error) {
+      console.error('Error importing jobs:', error);
+      alert('The import failed. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-5xl w-full mx-4 shadow-2xl border border-gray-800 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-white mb-2 flex items-center gap-3">
+          <FaFileImport className="text-[#FFA116]" />
+          Import Jobs
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Pick a CSV file with a header row, e.g. exported from a spreadsheet. Statuses must match a pipeline stage
+          ({pipeline.stages.map(stage => stage.name).join(', ')}); rows without one start as {pipeline.stages.find(stage => !stage.terminal)?.name ?? 'Applied'}.
+        </p>
+
+        <label className="block mb-4">
+          <span className="sr-only">CSV file</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm text-gray-400 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+          />
+        </label>
+
+        {headers.length > 0 && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+              {FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label htmlFor={`import-${field}`} className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">
+                    {label}{required && ' *'}
+                  </label>
+                  <select
+                    id={`import-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [field]: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                    className={selectClass}
+                  >
+                    <option value="">(none)</option>
+                    {headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+                  </select>
+                </div>
+              ))}
+              {mapping.username === undefined && (
+                <div>
+                  <label htmlFor="import-default-user" className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Add Jobs For</label>
+                  <select id="import-default-user" value={defaultUsername} onChange={(e) => setDefaultUsername(e.target.value)} className={selectClass}>
+                    <option value="">Select a user</option>
+                    {users.filter(user => canManageJobsOf(member, user.username)).map(user => (
+                      <option key={user.username} value={user.username}>{user.username}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {failedLines.size > 0 && (
+              <p className="mb-3 px-3 py-2 text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded-lg">
+                {failedLines.size} job(s) could not be imported; they're marked below. {importedLines.size > 0 && `The other ${importedLines.size} were added. `}
+                Importing again only retries the ones that failed.
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+              <span className="text-gray-400">{fileName}: {preview.length} row(s)</span>
+              {invalidCount > 0 && <span className="text-red-400">{invalidCount} with errors (skipped)</span>}
+              {duplicateCount > 0 && (
+                <label className="flex items-center gap-2 text-[#FFA116]">
+                  <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                  Skip {duplicateCount} possible duplicate(s)
+                </label>
+              )}
+            </div>
+
+            <div className="overflow-y-auto flex-1 min-h-0 border border-gray-800 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-[#1a1a1a] sticky top-0">
+                  <tr>
+                    <th className={headerClass}>Line</th>
+                    <th className={headerClass}>User</th>
+                    <th className={headerClass}>Title</th>
+                    <th className={headerClass}>Company</th>
+                    <th className={headerClass}>Status</th>
+                    <th className={headerClass}>Applied</th>
+                    <th className={headerClass}>Issues</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {preview.map(row => (
+                    <tr key={row.line} className={toImport.includes(row) ? 'text-white' : 'text-gray-500'}>
+                      <td className="px-3 py-2 whitespace-nowrap">{row.line}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{row.job?.username}</td>
+                      <td className="px-3 py-2">{row.job?.title}</td>
+                      <td className="px-3 py-2">{row.job?.company}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{row.job?.status}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{row.job && new Date(row.job.createdAt).toLocaleDateString()}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length > 0 && <span className="text-red-400">{row.errors.join('; ')}</span>}
+                        {importedLines.has(row.line) && <span className="text-green-400">Imported</span>}
+                        {failedLines.has(row.line) && <span className="text-red-400">Not imported: {failedLines.get(row.line)}</span>}
+                        {row.duplicate && !importedLines.has(row.line) && <span className="text-[#FFA116]">Possible duplicate</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors">Cancel</button>
+          <button
+            onClick={handleImport}
+            disabled={toImport.length === 0 || importing}
+            className="px-4 py-2 bg-[#FFA116] hover:bg-[#FFB84D] disabled:bg-gray-700 disabled:text-gray-400 text-black font-semibold rounded-lg transition-colors"
+          >
+            {importing ? 'Importing...' : `Import ${toImport.length} Job${toImport.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { FaCopy, FaUserFriends } from 'react-icons/fa';
+import { JobMatch } from '../types';
+
+interface JobMatchListProps {
+  matches: JobMatch[];
+  username: string; // whose job this is; their own matches are duplicates, the rest teammates
+}
+
+const describe = ({ job, reason }: JobMatch) =>
+  `${job.title} at ${job.company} · ${job.status}, added ${new Date(job.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}${reason === 'similar' ? ' (similar title)' : ''}`;
+
+export default function JobMatchList({ matches, username }: JobMatchListProps) {
+  const own = matches.filter(match => match.job.username === username);
+  const teammates = matches.filter(match => match.job.username !== username);
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {own.length > 0 && (
+        <div className="px-3 py-2 rounded-lg bg-[#FFA116]/10 text-[#FFA116]">
+          <div className="flex items-center gap-2 font-semibold"><FaCopy /> Possible duplicate</div>
+          {own.map(match => <div key={match.job.id} className="mt-1 truncate">{describe(match)}</div>)}
+        </div>
+      )}
+      {teammates.length > 0 && (
+        <div className="px-3 py-2 rounded-lg bg-blue-500/10 text-blue-300">
+          <div className="flex items-center gap-2 font-semibold"><FaUserFriends /> Teammates who applied</div>
+          {teammates.map(match => (
+            <div key={match.job.id} className="mt-1 truncate">
+              <span className="font-semibold">{match.job.username}</span>: {describe(match)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
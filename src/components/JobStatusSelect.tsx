@@ -0,0 +1,39 @@
+import { Job, JobPipeline, JobStatus } from '../types';
+import { STAGE_COLORS, getStage, getStageColor, getStatusHistory } from '../utils/jobUtils';
+
+interface JobStatusSelectProps {
+  job: Job;
+  pipeline: JobPipeline;
+  disabled?: boolean;
+  onChange: (status: JobStatus) => void;
+}
+
+const formatChange = (status: JobStatus, changedAt: string) =>
+  `${status}: ${new Date(changedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`;
+
+export default function JobStatusSelect({ job, pipeline, disabled = false, onChange }: JobStatusSelectProps) {
+  const open = pipeline.stages.filter(stage => !stage.terminal);
+  const closed = pipeline.stages.filter(stage => stage.terminal);
+  // The hover text doubles as the job's status history
+  const history = getStatusHistory(job).map(change => formatChange(change.status, change.changedAt)).join('\n');
+
+  return (
+    <select
+      value={job.status}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      title={history}
+      aria-label={`Status of ${job.title} at ${job.company}`}
+      className={`appearance-none px-3 py-1.5 text-sm font-semibold rounded-full transition-colors cursor-pointer disabled:cursor-default focus:outline-none ${STAGE_COLORS[getStageColor(job.status, pipeline)].badge}`}
+    >
+      {/* A stage removed from the pipeline still shows on the jobs that are in it */}
+      {!getStage(job.status, pipeline) && <option value={job.status}>{job.status}</option>}
+      {open.map(stage => <option key={stage.name} value={stage.name}>{stage.name}</option>)}
+      {closed.length > 0 && (
+        <optgroup label="Closed">
+          {closed.map(stage => <option key={stage.name} value={stage.name}>{stage.name}</option>)}
+        </optgroup>
+      )}
+    </select>
+  );
+}
@@ -1,13 +1,18 @@
-import { FaTrophy } from 'react-icons/fa';
+import { FaTrophy, FaFire } from 'react-icons/fa';
 import { MdError } from 'react-icons/md';
+import { formatDistanceToNow } from 'date-fns';
 import { UserStats } from '../types';
 
 interface LeaderboardTableProps {
   userStats: UserStats[];
+  showStreaks?: boolean;
+  onSelectUser?: (username: string) => void;
 }
 
 export default function LeaderboardTable({
   userStats,
+  showStreaks = false,
+  onSelectUser,
 }: LeaderboardTableProps) {
   if (userStats.length === 0) {
     return (
@@ -52,6 +57,11 @@ export default function LeaderboardTable({
             <th className="px-6 py-5 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">
               <span className="text-[#9B5CF6]">XP</span>
             </th>
+            {showStreaks && (
+              <th className="px-6 py-5 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">
+                Streak
+              </th>
+            )}
             {/* Commented out Action column - delete disabled in UI
             <th className="px-6 py-5 text-center text-xs font-bold text-gray-400 uppercase tracking-wider">
               Action
@@ -79,9 +89,18 @@ export default function LeaderboardTable({
               </td>
               <td className="px-6 py-5 whitespace-nowrap">
                 <div>
-                  <div className="text-base font-semibold text-white">
-                    {user.username}
-                  </div>
+                  {onSelectUser ? (
+                    <button
+                      onClick={() => onSelectUser(user.username)}
+                      className="text-base font-semibold text-white hover:text-[#FFA116] transition-colors"
+                    >
+                      {user.username}
+                    </button>
+                  ) : (
+                    <div className="text-base font-semibold text-white">
+                      {user.username}
+                    </div>
+                  )}
                   {user.name && (
                     <div className="text-sm text-gray-400 mt-1">{user.name}</div>
                   )}
@@ -91,6 +110,11 @@ export default function LeaderboardTable({
                       {user.error}
                     </div>
                   )}
+                  {!user.error && user.updatedAt && (
+                    <div className="text-xs text-gray-500 mt-1" title={new Date(user.updatedAt).toLocaleString()}>
+                      Updated {formatDistanceToNow(new Date(user.updatedAt), { addSuffix: true })}
+                    </div>
+                  )}
                 </div>
               </td>
               <td className="px-6 py-5 whitespace-nowrap text-right">
@@ -123,6 +147,22 @@ export default function LeaderboardTable({
                   {user.error ? 'N/A' : user.xp}
                 </span>
               </td>
+              {showStreaks && (
+                <td className="px-6 py-5 whitespace-nowrap text-right">
+                  {user.currentStreak === undefined ? (
+                    <span className="text-base text-gray-500">—</span>
+                  ) : (
+                    <div>
+                      <div className="text-base font-semibold text-[#FFA116] flex items-center justify-end gap-1">
+                        <FaFire /> {user.currentStreak}d
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Best {user.longestStreak}d · {user.activeDays ?? 0} active
+                      </div>
+                    </div>
+                  )}
+                </td>
+              )}
               {/* Action removed: delete button commented out
               <td className="px-6 py-5 whitespace-nowrap text-center">
                 <button
@@ -0,0 +1,74 @@
+interface LineChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface LineChartProps {
+  labels: string[]; // x-axis labels, one per value
+  series: LineChartSeries[];
+  height?: number;
+}
+
+const WIDTH = 640;
+const PADDING = { top: 12, right: 16, bottom: 24, left: 44 };
+
+// Plain SVG so we don't pull in a charting library for a few lines
+export default function LineChart({ labels, series, height = 200 }: LineChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+
+  const x = (i: number) => PADDING.left + (labels.length > 1 ? (i / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  // Horizontal gridlines at 0, 25, 50, 75 and 100% of the max
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => Math.round(max * f));
+  // Label the first, last and a few evenly spaced points in between
+  const labelStep = Math.max(1, Math.ceil(labels.length / 6));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img">
+        {ticks.map((tick, i) => (
+          <g key={i}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#374151" strokeWidth={1} />
+            <text x={PADDING.left - 6} y={y(tick) + 3} textAnchor="end" className="fill-gray-500" fontSize={10}>{tick}</text>
+          </g>
+        ))}
+
+        {labels.map((label, i) => (i % labelStep === 0 || i === labels.length - 1) && (
+          <text key={i} x={x(i)} y={height - 6} textAnchor="middle" className="fill-gray-500" fontSize={10}>{label}</text>
+        ))}
+
+        {series.map(s => (
+          <g key={s.label}>
+            <polyline
+              points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+            {s.values.map((v, i) => (
+              <circle key={i} cx={x(i)} cy={y(v)} r={3} fill={s.color}>
+                <title>{`${s.label}: ${v} on ${labels[i]}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex justify-center gap-4 mt-2 text-xs">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center gap-1 text-gray-400">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { FaUserCheck } from 'react-icons/fa';
+import { FirestoreUser } from '../types';
+import { linkAccount, loadClaimedUsernames, signOutUser } from '../utils/authUtils';
+
+interface LinkAccountModalProps {
+  users: FirestoreUser[];
+  email?: string | null;
+}
+
+export default function LinkAccountModal({ users, email }: LinkAccountModalProps) {
+  const [claimed, setClaimed] = useState<Set<string>>(new Set());
+  const [username, setUsername] = useState<string>('');
+  const [linking, setLinking] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadClaimedUsernames().then(setClaimed);
+  }, []);
+
+  const available = users.filter(user => !claimed.has(user.username));
+
+  const handleLink = async () => {
+    if (!username) return;
+    if (claimed.has(username)) {
+      alert(`"${username}" is already linked to another account.`);
+      return;
+    }
+    setLinking(true);
+    try {
+      await linkAccount(username);
+    } catch (error) {
+      console.error('Error linking account:', error);
+      alert(`Could not link to "${username}". It may already belong to another account.`);
+      setClaimed(await loadClaimedUsernames());
+      setLinking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-[#262626] rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl">
+        <h2 className="text-2xl font-bold text-white mb-2 flex items-center gap-3">
+          <FaUserCheck className="text-[#FFA116]" />
+          Who are you?
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Signed in as {email ?? 'an unknown account'}. Pick your LeetCode username to manage your own jobs,
+          or type it in if you're joining another group. An admin approves the link before you can make changes.
+        </p>
+
+        <form onSubmit={(e) => { e.preventDefault(); handleLink(); }} className="space-y-4">
+          <input
+            type="text"
+            list="unclaimed-usernames"
+            value={username}
+            onChange={(e) => setUsername(e.target.value.trim())}
+            placeholder="Your LeetCode username"
+            className="w-full px-4 py-3 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]"
+          />
+          <datalist id="unclaimed-usernames">
+            {available.map(user => (
+              <option key={user.username} value={user.username}>{user.name}</option>
+            ))}
+          </datalist>
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={() => signOutUser()} className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg">Sign Out</button>
+            <button type="submit" disabled={!username || linking} className="flex-1 px-4 py-3 bg-[#FFA116] hover:bg-[#FFB84D] disabled:bg-gray-700 text-black font-semibold rounded-lg">{linking ? 'Linking...' : 'Request Link'}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { FaUsersCog, FaTrash, FaArchive, FaUndo, FaPen, FaCheck, FaTimes } from 'react-icons/fa';
+import { IoMdRefresh } from 'react-icons/io';
+import { Account, FirestoreUser } from '../types';
+import { deleteUser, loadUsers, renameUser, setUserArchived, updateUserName } from '../utils/userUtils';
+import { fetchUserStats } from '../utils/statsUtils';
+import { approveAccount, loadPendingAccounts, rejectAccount } from '../utils/authUtils';
+import { DEFAULT_GROUP_ID, getActiveGroupId } from '../utils/groupUtils';
+
+interface MemberManagementModalProps {
+  onClose: () => void;
+  onChanged: () => void; // reload the board after any change
+}
+
+export default function MemberManagementModal({ onClose, onChanged }: MemberManagementModalProps) {
+  const [members, setMembers] = useState<FirestoreUser[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busy, setBusy] = useState<string | null>(null); // username (or pending account uid) being changed
+  // Sign-ins asking to be linked to a username; accounts belong to the default group
+  const [pending, setPending] = useState<Account[]>([]);
+
+  const reload = async () => {
+    const list = await loadUsers(true);
+    setMembers(list.sort((a, b) => a.username.localeCompare(b.username)));
+    setNames(Object.fromEntries(list.map(u => [u.username, u.name ?? ''])));
+    if (getActiveGroupId() === DEFAULT_GROUP_ID) setPending(await loadPendingAccounts());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  // Runs one change, then refreshes both this list and the board
+  const run = async (member: FirestoreUser, action: () => Promise<void>, failure: string) => {
+    setBusy(member.username);
+    try {
+      await action();
+      await reload();
+      onChanged();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(`${failure}. Please try again.`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRename = async (member: FirestoreUser) => {
+    const newUsername = window.prompt(`New LeetCode username for ${member.username}:`, member.username)?.trim();
+    if (!newUsername || newUsername === member.username) return;
+    if (members.some(u => u.username === newUsername)) {
+      alert(`User "${newUsername}" already exists!`);
+      return;
+    }
+
+    await run(member, async () => {
+      const stats = await fetchUserStats(newUsername);
+      if (stats.error) throw new Error(`"${newUsername}" could not be found on LeetCode`);
+      await renameUser(member, newUsername);
+    }, `Failed to rename ${member.username}`);
+  };
+
+  const handleLinkRequest = async (account: Account, approve: boolean) => {
+    if (!approve && !window.confirm(`Reject ${account.email ?? 'this sign-in'} as ${account.username}? They can ask again.`)) return;
+    setBusy(account.uid);
+    try {
+      await (approve ? approveAccount(account) : rejectAccount(account));
+      await reload();
+    } catch (error) {
+      console.error(`Failed to ${approve ? 'approve' : 'reject'} ${account.username}:`, error);
+      alert(`Failed to ${approve ? 'approve' : 'reject'} ${account.username}. Please try again.`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (member: FirestoreUser) => {
+    if (!window.confirm(`Permanently delete ${member.username} and all of their jobs? Their sign-in loses access too. Archive them instead to keep their history.`)) {
+      return;
+    }
+    await run(member, () => deleteUser(member), `Failed to delete ${member.username}`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-4xl w-full mx-4 shadow-2xl border border-gray-800" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-3">
+          <FaUsersCog className="text-[#FFA116]" />
+          Manage Members
+        </h2>
+
+        <div className="overflow-y-auto max-h-[60vh]">
+          {loading ? (
+            <div className="px-4 py-8 text-center text-gray-400">
+              <IoMdRefresh className="animate-spin h-8 w-8 text-[#FFA116] mx-auto mb-2" />
+              Loading members...
+            </div>
+          ) : (
+            <>
+              {pending.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Waiting for Approval</h3>
+                  <p className="text-sm text-gray-500 mb-3">Approve only people you know own the LeetCode username they picked; until then they can't change anything.</p>
+                  <ul className="divide-y divide-gray-800 border border-gray-800 rounded-lg">
+                    {pending.map(account => (
+                      <li key={account.uid} className="px-4 py-3 flex items-center justify-between gap-4">
+                        <div>
+                          <span className="font-semibold text-white">{account.username}</span>
+                          <span className="ml-3 text-sm text-gray-400">{account.email ?? 'no email'}</span>
+                          {!members.some(member => member.username === account.username) && (
+                            <span className="ml-2 px-2 py-0.5 text-xs bg-gray-700 text-gray-300 rounded-full">not tracked</span>
+                          )}
+                        </div>
+                        {busy === account.uid ? (
+                          <IoMdRefresh className="animate-spin h-5 w-5 text-[#FFA116]" />
+                        ) : (
+                          <div className="flex gap-3 text-gray-400">
+                            <button onClick={() => handleLinkRequest(account, true)} disabled={busy !== null} className="hover:text-green-400 transition-colors" title="Approve" aria-label="Approve"><FaCheck /></button>
+                            <button onClick={() => handleLinkRequest(account, false)} disabled={busy !== null} className="hover:text-red-500 transition-colors" title="Reject" aria-label="Reject"><FaTimes /></button>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <table className="min-w-full">
+                <thead className="bg-[#1a1a1a]">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Username</th>
+                    <th className="px-4 py-3 text-left text-xs font-bold text-gray-400 uppercase tracking-wider">Display Name</th>
+                    <th className="px-4 py-3 text-right text-xs font-bold text-gray-400 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {members.map(member => {
+                    const name = names[member.username] ?? '';
+                    const nameChanged = name.trim() !== (member.name ?? '') && name.trim() !== '';
+                    const disabled = busy !== null;
+
+                    return (
+                      <tr key={member.username} className={member.archived ? 'opacity-60' : ''}>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className="font-semibold text-white">{member.username}</span>
+                          {member.archived && <span className="ml-2 px-2 py-0.5 text-xs bg-gray-700 text-gray-300 rounded-full">archived</span>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              if (nameChanged) run(member, () => updateUserName(member, name.trim()), `Failed to rename ${member.username}`);
+                            }}
+                            className="flex gap-2"
+                          >
+                            <input
+                              type="text"
+                              value={name}
+                              onChange={(e) => setNames(prev => ({ ...prev, [member.username]: e.target.value }))}
+                              className="flex-1 px-3 py-1.5 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]"
+                            />
+                            {nameChanged && (
+                              <button type="submit" disabled={disabled} className="px-3 py-1.5 bg-[#FFA116] hover:bg-[#FFB84D] disabled:bg-gray-700 text-black text-sm font-semibold rounded-lg">Save</button>
+                            )}
+                          </form>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right">
+                          {busy === member.username ? (
+                            <IoMdRefresh className="animate-spin h-5 w-5 text-[#FFA116] inline" />
+                          ) : (
+                            <div className="flex justify-end gap-3 text-gray-400">
+                              <button onClick={() => handleRename(member)} disabled={disabled} className="hover:text-white transition-colors" title="Change LeetCode username" aria-label="Change LeetCode username"><FaPen /></button>
+                              <button
+                                onClick={() => run(member, () => setUserArchived(member, !member.archived), `Failed to update ${member.username}`)}
+                                disabled={disabled}
+                                className="hover:text-white transition-colors"
+                                title={member.archived ? 'Unarchive' : 'Archive (hide from rankings, keep history)'}
+                                aria-label={member.archived ? 'Unarchive' : 'Archive'}
+                              >
+                                {member.archived ? <FaUndo /> : <FaArchive />}
+                              </button>
+                              <button onClick={() => handleDelete(member)} disabled={disabled} className="hover:text-red-500 transition-colors" title="Delete permanently" aria-label="Delete permanently"><FaTrash /></button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
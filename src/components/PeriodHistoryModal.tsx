@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { FaTrophy, FaChevronLeft, FaChevronRight } from 'react-icons/fa';
+import { IoMdRefresh, IoMdAlert } from 'react-icons/io';
+import LeaderboardTable from './LeaderboardTable';
+import SnapshotIntegrityNotice from './SnapshotIntegrityNotice';
+import { ClosedPeriod, Job, SnapshotIntegrityIssue, SnapshotPeriod } from '../types';
+import { loadAllSnapshots } from '../utils/snapshotUtils';
+import { computePeriodStandings, getClosedPeriods } from '../utils/progressUtils';
+import { getNextPeriodKey } from '../utils/dateUtils';
+import { checkSnapshotIntegrity } from '../utils/integrityUtils';
+import { getScoringRules, getScoringRulesForVersion } from '../utils/scoringUtils';
+
+interface PeriodHistoryModalProps {
+  period: SnapshotPeriod;
+  jobs: Job[]; // for stage bonus XP
+  periodKey?: string; // closed period to show; defaults to the latest
+  onPeriodKeyChange?: (periodKey: string) => void;
+  onClose: () => void;
+}
+
+const PERIOD_LABELS: Record<SnapshotPeriod, string> = {
+  weekly: 'Week',
+  monthly: 'Month',
+  yearly: 'Year',
+};
+
+export default function PeriodHistoryModal({ period, jobs, periodKey, onPeriodKeyChange, onClose }: PeriodHistoryModalProps) {
+  const [periods, setPeriods] = useState<ClosedPeriod[]>([]);
+  const [index, setIndex] = useState<number>(0);
+  const [issues, setIssues] = useState<SnapshotIntegrityIssue[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [useCurrentRules, setUseCurrentRules] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const snapshots = await loadAllSnapshots(period);
+
+      const closed = getClosedPeriods(period, snapshots);
+      const baselines = closed.length > 0 ? [...closed.map(p => p.start), closed[closed.length - 1].end] : [];
+
+      if (!cancelled) {
+        setPeriods(closed);
+        setIssues(checkSnapshotIntegrity(baselines, []));
+        setLoading(false);
+      }
+    };
+
+    load();
+    return () => { cancelled = true; };
+  }, [period]);
+
+  // Follow the requested period (e.g. from a deep link or back/forward), else show the latest
+  useEffect(() => {
+    const requested = periods.findIndex(p => p.periodKey === periodKey);
+    setIndex(requested !== -1 ? requested : periods.length - 1);
+  }, [periods, periodKey]);
+
+  const selectIndex = (i: number) => {
+    setIndex(i);
+    onPeriodKeyChange?.(periods[i].periodKey);
+  };
+
+  const current = periods[index];
+  // A period is scored with the rules its opening baseline was captured under, unless recalculated
+  const originalRules = getScoringRulesForVersion(current?.start.scoringVersion);
+  const currentRules = getScoringRules();
+  const rules = useCurrentRules ? currentRules : originalRules;
+  const standings = current ? computePeriodStandings(current.end, current.start, rules, jobs) : [];
+  // A gap means nobody opened the app for a whole period, so this one ran long
+  const hasGap = current && current.end.periodKey !== getNextPeriodKey(period, current.periodKey);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-5xl w-full mx-4 shadow-2xl border border-gray-800" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+            <FaTrophy className="text-[#FFA116]" />
+            {PERIOD_LABELS[period]} Leaderboard History
+          </h2>
+          {periods.length > 0 && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => selectIndex(Math.max(0, index - 1))}
+                disabled={index <= 0}
+                className="p-2 bg-[#2d2d2d] hover:bg-[#333] disabled:opacity-40 disabled:cursor-not-allowed border border-gray-700 rounded-lg text-gray-300 transition-colors"
+                aria-label={`Previous ${PERIOD_LABELS[period].toLowerCase()}`}
+              >
+                <FaChevronLeft />
+              </button>
+              <select
+                value={index}
+                onChange={(e) => selectIndex(Number(e.target.value))}
+                className="px-3 py-2 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116] font-mono"
+              >
+                {periods.map((p, i) => (
+                  <option key={p.periodKey} value={i}>{p.periodKey}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => selectIndex(Math.min(periods.length - 1, index + 1))}
+                disabled={index >= periods.length - 1}
+                className="p-2 bg-[#2d2d2d] hover:bg-[#333] disabled:opacity-40 disabled:cursor-not-allowed border border-gray-700 rounded-lg text-gray-300 transition-colors"
+                aria-label={`Next ${PERIOD_LABELS[period].toLowerCase()}`}
+              >
+                <FaChevronRight />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-y-auto max-h-[60vh]">
+          {loading ? (
+            <div className="px-4 py-8 text-center text-gray-400">
+              <IoMdRefresh className="animate-spin h-8 w-8 text-[#FFA116] mx-auto mb-2" />
+              Loading history...
+            </div>
+          ) : !current ? (
+            <div className="px-4 py-8 text-center text-gray-400 bg-yellow-900/10 rounded-lg">
+              <div className="flex flex-col items-center gap-2">
+                <IoMdAlert className="text-yellow-500 text-2xl" />
+                <span className="font-medium text-yellow-200">Data Unavailable</span>
+                <span className="text-sm">
+                  No {PERIOD_LABELS[period].toLowerCase()} has finished since history started being captured.
+                  Wait for the next reset cycle!
+                </span>
+              </div>
+            </div>
+          ) : (
+            <>
+              {hasGap && (
+                <div className="mb-4 p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg text-yellow-200 text-sm">
+                  ⚠️ No baseline was captured right after {current.periodKey}; these standings run until {current.end.periodKey} started.
+                </div>
+              )}
+              {originalRules.version !== currentRules.version && (
+                <div className="mb-4 flex items-center justify-between gap-3 text-sm text-gray-400">
+                  <span>
+                    Scored with XP rules v{rules.version}: Job Apply = {rules.jobApplied}, Easy = {rules.easy}, Medium = {rules.medium}, Hard = {rules.hard}
+                  </span>
+                  <div className="flex gap-1 bg-[#1a1a1a] p-1 rounded-lg">
+                    <button
+                      onClick={() => setUseCurrentRules(false)}
+                      className={`px-3 py-1 rounded-md transition-colors ${!useCurrentRules ? 'bg-[#FFA116] text-black' : 'hover:text-gray-200'}`}
+                    >
+                      Original rules
+                    </button>
+                    <button
+                      onClick={() => setUseCurrentRules(true)}
+                      className={`px-3 py-1 rounded-md transition-colors ${useCurrentRules ? 'bg-[#FFA116] text-black' : 'hover:text-gray-200'}`}
+                    >
+                      Current rules
+                    </button>
+                  </div>
+                </div>
+              )}
+              <SnapshotIntegrityNotice
+                issues={issues.filter(i => i.snapshotId === current.start.id || i.snapshotId === current.end.id)}
+              />
+              <LeaderboardTable userStats={standings} />
+            </>
+          )}
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
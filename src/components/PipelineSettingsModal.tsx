@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { FaArrowDown, FaArrowUp, FaPlus, FaStream, FaTrash } from 'react-icons/fa';
+import { JobPipeline, PipelineStage, StageColor } from '../types';
+import { STAGE_COLORS, savePipeline } from '../utils/jobUtils';
+
+interface PipelineSettingsModalProps {
+  pipeline: JobPipeline;
+  onClose: () => void;
+  onSaved: (pipeline: JobPipeline) => void;
+}
+
+const COLORS = Object.keys(STAGE_COLORS) as StageColor[];
+
+export default function PipelineSettingsModal({ pipeline, onClose, onSaved }: PipelineSettingsModalProps) {
+  const [stages, setStages] = useState<PipelineStage[]>(pipeline.stages);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const names = stages.map(stage => stage.name.trim());
+  const invalid = names.some(name => name === '')
+    || new Set(names).size !== names.length
+    || !stages.some(stage => !stage.terminal);
+
+  const updateStage = (index: number, changes: Partial<PipelineStage>) => {
+    setStages(prev => prev.map((stage, i) => i === index ? { ...stage, ...changes } : stage));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    setStages(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (invalid) return;
+    setSaving(true);
+    try {
+      // Firestore rejects undefined fields, so only terminal stages carry the flag
+      onSaved(await savePipeline(stages.map(({ name, color, terminal }) =>
+        terminal ? { name: name.trim(), color, terminal } : { name: name.trim(), color })));
+    } catch (error) {
+      console.error('Error saving job pipeline:', error);
+      alert('Failed to save the pipeline. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-lg w-full mx-4 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-white mb-2 flex items-center gap-3">
+          <FaStream className="text-[#FFA116]" />
+          Job Pipeline
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">
+          New jobs start in the first open stage. Closed stages end an application. Renaming a stage doesn't move jobs already in it.
+        </p>
+
+        <form onSubmit={(e) => { e.preventDefault(); handleSave(); }} className="space-y-4">
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+            {stages.map((stage, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={stage.name}
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                  aria-label="Stage name"
+                  className={`flex-1 min-w-0 px-3 py-2 bg-[#1a1a1a] border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116] font-semibold ${STAGE_COLORS[stage.color].text}`}
+                />
+                <select
+                  value={stage.color}
+                  onChange={(e) => updateStage(index, { color: e.target.value as StageColor })}
+                  aria-label="Stage color"
+                  className="px-2 py-2 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116]"
+                >
+                  {COLORS.map(color => <option key={color} value={color}>{color}</option>)}
+                </select>
+                <label className="flex items-center gap-1 text-sm text-gray-400" title="Ends the application, e.g. Rejected">
+                  <input
+                    type="checkbox"
+                    checked={stage.terminal === true}
+                    onChange={(e) => updateStage(index, { terminal: e.target.checked })}
+                    className="accent-[#FFA116]"
+                  />
+                  Closed
+                </label>
+                <button type="button" onClick={() => moveStage(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-white disabled:text-gray-700" aria-label="Move up"><FaArrowUp /></button>
+                <button type="button" onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} className="p-1 text-gray-400 hover:text-white disabled:text-gray-700" aria-label="Move down"><FaArrowDown /></button>
+                <button type="button" onClick={() => setStages(prev => prev.filter((_, i) => i !== index))} className="p-1 text-gray-400 hover:text-red-500" aria-label="Remove stage"><FaTrash /></button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setStages(prev => [...prev, { name: '', color: 'gray' }])}
+            className="flex items-center gap-2 text-sm text-gray-400 hover:text-[#FFA116] transition-colors"
+          >
+            <FaPlus /> Add stage
+          </button>
+          {invalid && (
+            <p className="text-sm text-red-400">Stage names must be filled in and unique, with at least one open stage.</p>
+          )}
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg">Cancel</button>
+            <button type="submit" disabled={invalid || saving} className="flex-1 px-4 py-3 bg-[#FFA116] hover:bg-[#FFB84D] disabled:bg-gray-700 text-black font-semibold rounded-lg">{saving ? 'Saving...' : 'Save Pipeline'}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { FaBoltLightning } from 'react-icons/fa6';
+import { JobPipeline, ScoringRules } from '../types';
+import { saveScoringRules } from '../utils/scoringUtils';
+import { STAGE_COLORS, getInitialStatus } from '../utils/jobUtils';
+
+interface ScoringSettingsModalProps {
+  rules: ScoringRules;
+  pipeline: JobPipeline;
+  onClose: () => void;
+  onSaved: (rules: ScoringRules) => void;
+}
+
+type Weights = Omit<ScoringRules, 'version' | 'updatedAt' | 'stageBonuses'>;
+
+const WEIGHT_FIELDS: { key: keyof Weights; label: string; color: string }[] = [
+  { key: 'jobApplied', label: 'Job Apply', color: 'text-blue-400' },
+  { key: 'easy', label: 'Easy', color: 'text-[#00B8A3]' },
+  { key: 'medium', label: 'Medium', color: 'text-[#FFC01E]' },
+  { key: 'hard', label: 'Hard', color: 'text-[#FF375F]' },
+];
+
+export default function ScoringSettingsModal({ rules, pipeline, onClose, onSaved }: ScoringSettingsModalProps) {
+  // New jobs already earn Job Apply XP in the first stage, so it gets no bonus
+  const bonusStages = pipeline.stages.filter(stage => stage.name !== getInitialStatus(pipeline));
+  const [weights, setWeights] = useState<Record<keyof Weights, string>>({
+    jobApplied: String(rules.jobApplied),
+    easy: String(rules.easy),
+    medium: String(rules.medium),
+    hard: String(rules.hard),
+  });
+  const [bonuses, setBonuses] = useState<Record<string, string>>(() => Object.fromEntries(
+    bonusStages.map(stage => [stage.name, String(rules.stageBonuses?.[stage.name] ?? 0)])
+  ));
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const parsed = Object.fromEntries(
+    Object.entries(weights).map(([key, value]) => [key, Number(value)])
+  ) as Weights;
+  // Zero bonuses are left out of the saved rules
+  const parsedBonuses = Object.fromEntries(
+    Object.entries(bonuses).map(([stage, value]) => [stage, Number(value)]).filter(([, value]) => value !== 0)
+  ) as Record<string, number>;
+  const invalid = [...Object.values(weights), ...Object.values(bonuses)].some(value => value.trim() === '')
+    || [...Object.values(parsed), ...Object.values(parsedBonuses)].some(value => Number.isNaN(value) || value < 0);
+
+  const handleSave = async () => {
+    if (invalid) return;
+    setSaving(true);
+    try {
+      onSaved(await saveScoringRules({ ...parsed, stageBonuses: parsedBonuses }));
+    } catch (error) {
+      console.error('Error saving scoring rules:', error);
+      alert('Failed to save scoring rules. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-md w-full mx-4 shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-white mb-2 flex items-center gap-3">
+          <FaBoltLightning className="text-[#FFA116]" />
+          XP Scoring
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Currently version {rules.version}. Saving creates version {rules.version + 1}; past leaderboards keep the rules they were captured with.
+        </p>
+
+        <form onSubmit={(e) => { e.preventDefault(); handleSave(); }} className="space-y-4">
+          {WEIGHT_FIELDS.map(field => (
+            <div key={field.key} className="flex items-center justify-between gap-4">
+              <label htmlFor={`weight-${field.key}`} className={`text-sm font-medium ${field.color}`}>{field.label}</label>
+              <input
+                id={`weight-${field.key}`}
+                type="number"
+                min="0"
+                step="0.1"
+                value={weights[field.key]}
+                onChange={(e) => setWeights(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="w-32 px-4 py-2 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116] text-right"
+              />
+            </div>
+          ))}
+          {bonusStages.length > 0 && (
+            <>
+              <p className="text-sm text-gray-400 pt-2">Bonus per job reaching a stage, counted once per job in the period it got there:</p>
+              {bonusStages.map(stage => (
+                <div key={stage.name} className="flex items-center justify-between gap-4">
+                  <label htmlFor={`bonus-${stage.name}`} className={`text-sm font-medium ${STAGE_COLORS[stage.color].text}`}>{stage.name}</label>
+                  <input
+                    id={`bonus-${stage.name}`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={bonuses[stage.name]}
+                    onChange={(e) => setBonuses(prev => ({ ...prev, [stage.name]: e.target.value }))}
+                    className="w-32 px-4 py-2 bg-[#1a1a1a] text-white border border-gray-700 rounded-lg focus:outline-none focus:border-[#FFA116] text-right"
+                  />
+                </div>
+              ))}
+            </>
+          )}
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="flex-1 px-4 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg">Cancel</button>
+            <button type="submit" disabled={invalid || saving} className="flex-1 px-4 py-3 bg-[#FFA116] hover:bg-[#FFB84D] disabled:bg-gray-700 text-black font-semibold rounded-lg">{saving ? 'Saving...' : 'Save Rules'}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
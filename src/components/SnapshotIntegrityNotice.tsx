@@ -0,0 +1,32 @@
+import { IoMdAlert } from 'react-icons/io';
+import { SnapshotIntegrityIssue } from '../types';
+
+interface SnapshotIntegrityNoticeProps {
+  issues: SnapshotIntegrityIssue[];
+}
+
+const ISSUE_LABELS: Record<SnapshotIntegrityIssue['issue'], string> = {
+  'zeroed': 'zeroed baseline',
+  'decreasing': 'baseline higher than later data',
+  'inconsistent-total': 'inconsistent total',
+};
+
+export default function SnapshotIntegrityNotice({ issues }: SnapshotIntegrityNoticeProps) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-3 bg-red-900/20 border border-red-700/50 rounded-lg text-red-200 text-sm">
+      <div className="font-semibold flex items-center gap-2 mb-1">
+        <IoMdAlert /> Suspicious baselines
+      </div>
+      Progress for these users is likely wrong in this period:
+      <ul className="mt-1 list-disc list-inside">
+        {issues.map(issue => (
+          <li key={`${issue.snapshotId}-${issue.username}-${issue.issue}`}>
+            <span className="font-semibold">{issue.username}</span> ({issue.periodKey}): {ISSUE_LABELS[issue.issue]}, {issue.detail}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
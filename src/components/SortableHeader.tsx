@@ -0,0 +1,33 @@
+import { FaSort, FaSortDown, FaSortUp } from 'react-icons/fa';
+import { JobSortKey, JobsQuery } from '../types';
+
+interface SortableHeaderProps {
+  label: string;
+  sortKey: JobSortKey;
+  query: JobsQuery;
+  onSort: (sort: JobSortKey, direction: 'asc' | 'desc') => void;
+  className?: string;
+}
+
+export default function SortableHeader({ label, sortKey, query, onSort, className = '' }: SortableHeaderProps) {
+  const activeSort = query.sort ?? 'createdAt';
+  const direction = query.direction ?? 'desc';
+  const active = activeSort === sortKey;
+  const Icon = !active ? FaSort : direction === 'asc' ? FaSortUp : FaSortDown;
+
+  return (
+    <th
+      className={`px-6 py-5 text-left text-xs font-bold text-gray-400 uppercase tracking-wider ${className}`}
+      aria-sort={active ? (direction === 'asc' ? 'ascending' : 'descending') : undefined}
+    >
+      <button
+        // Dates start newest first, everything else A to Z
+        onClick={() => onSort(sortKey, active ? (direction === 'asc' ? 'desc' : 'asc') : sortKey === 'createdAt' ? 'desc' : 'asc')}
+        className={`flex items-center gap-1 uppercase tracking-wider hover:text-white transition-colors ${active ? 'text-white' : ''}`}
+      >
+        {label}
+        <Icon className={active ? 'text-[#FFA116]' : 'text-gray-600'} />
+      </button>
+    </th>
+  );
+}
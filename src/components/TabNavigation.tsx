@@ -1,6 +1,8 @@
+import { LeaderboardTab } from '../types';
+
 interface TabNavigationProps {
-  activeTab: 'all' | 'jobs' | 'weekly' | 'monthly' | 'yearly';
-  onTabChange: (tab: 'all' | 'jobs' | 'weekly' | 'monthly' | 'yearly') => void;
+  activeTab: LeaderboardTab;
+  onTabChange: (tab: LeaderboardTab) => void;
 }
 
 export default function TabNavigation({ activeTab, onTabChange }: TabNavigationProps) {
@@ -24,6 +26,15 @@ export default function TabNavigation({ activeTab, onTabChange }: TabNavigationP
       >
         Jobs Applied
       </button>
+      <button
+        onClick={() => onTabChange('analytics')}
+        className={`px-6 py-3 font-semibold transition-all duration-200 whitespace-nowrap ${activeTab === 'analytics'
+            ? 'text-cyan-400 border-b-2 border-cyan-400'
+            : 'text-gray-400 hover:text-gray-200'
+          }`}
+      >
+        Job Funnel
+      </button>
       <button
         onClick={() => onTabChange('weekly')}
         className={`px-6 py-3 font-semibold transition-all duration-200 whitespace-nowrap ${activeTab === 'weekly'
@@ -51,6 +62,15 @@ export default function TabNavigation({ activeTab, onTabChange }: TabNavigationP
       >
         Yearly Progress
       </button>
+      <button
+        onClick={() => onTabChange('custom')}
+        className={`px-6 py-3 font-semibold transition-all duration-200 whitespace-nowrap ${activeTab === 'custom'
+            ? 'text-teal-400 border-b-2 border-teal-400'
+            : 'text-gray-400 hover:text-gray-200'
+          }`}
+      >
+        Custom Range
+      </button>
     </div>
   );
 }
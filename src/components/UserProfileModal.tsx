@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { FaFire } from 'react-icons/fa';
+import { IoMdRefresh } from 'react-icons/io';
+import ActivityHeatmap from './ActivityHeatmap';
+import LineChart from './LineChart';
+import { Job, SnapshotPeriod, UserProfile, UserStats } from '../types';
+import { loadUserProfile } from '../utils/profileUtils';
+import { STAGE_COLORS, getPipeline, getStage, getStageColor } from '../utils/jobUtils';
+
+interface UserProfileModalProps {
+  user: UserStats;
+  jobs: Job[];
+  onClose: () => void;
+}
+
+const PERIOD_LABELS: Record<SnapshotPeriod, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+export default function UserProfileModal({ user, jobs, onClose }: UserProfileModalProps) {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(null);
+    loadUserProfile(user.username, user, jobs).then(loaded => {
+      if (!cancelled) setProfile(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [user.username, user.updatedAt]);
+
+  const calendar = user.submissionCalendar;
+  const userJobs = jobs.filter(job => job.username === user.username);
+  // Every open stage, plus closed or since-removed stages that still hold some of the jobs
+  const statuses = [
+    ...getPipeline().stages
+      .filter(stage => !stage.terminal || userJobs.some(job => job.status === stage.name))
+      .map(stage => stage.name),
+    ...new Set(userJobs.map(job => job.status).filter(status => !getStage(status))),
+  ];
+  const labels = profile?.progress.map(p => p.date.slice(5)) ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#262626] rounded-xl p-6 max-w-4xl w-full mx-4 shadow-2xl border border-gray-800 max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-white">{user.username}</h2>
+          {user.name && <div className="text-gray-400 mt-1">{user.name}</div>}
+        </div>
+
+        {/* Lifetime totals */}
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-3 mb-6">
+          {[
+            { label: 'XP', value: user.xp, color: 'text-[#9B5CF6]' },
+            { label: 'Solved', value: user.total, color: 'text-gray-300' },
+            { label: 'Easy', value: user.easy, color: 'text-[#00B8A3]' },
+            { label: 'Medium', value: user.medium, color: 'text-[#FFC01E]' },
+            { label: 'Hard', value: user.hard, color: 'text-[#FF375F]' },
+            { label: 'Jobs', value: user.jobsApplied, color: 'text-blue-400' },
+          ].map(stat => (
+            <div key={stat.label} className="bg-[#1a1a1a] rounded-lg p-3">
+              <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">{stat.label}</div>
+              <div className={`text-xl font-bold mt-1 ${stat.color}`}>{user.error ? 'N/A' : stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Activity */}
+        <h3 className="text-lg font-semibold text-white mb-3">Activity</h3>
+        {!calendar ? (
+          <div className="px-4 py-6 mb-6 text-center text-gray-400 bg-[#1a1a1a] rounded-lg">
+            No submission activity available for this user from the current stats provider.
+          </div>
+        ) : (
+          <div className="mb-6">
+            <div className="flex gap-6 mb-3 text-sm text-gray-400">
+              <span className="flex items-center gap-1">
+                <FaFire className="text-[#FFA116]" /> Current streak <span className="font-semibold text-white">{user.currentStreak ?? 0}d</span>
+              </span>
+              <span>Longest <span className="font-semibold text-white">{user.longestStreak ?? 0}d</span></span>
+              <span>Active days <span className="font-semibold text-white">{Object.keys(calendar).length}</span></span>
+            </div>
+            <ActivityHeatmap calendar={calendar} />
+          </div>
+        )}
+
+        {!profile ? (
+          <div className="px-4 py-8 text-center text-gray-400">
+            <IoMdRefresh className="animate-spin h-8 w-8 text-[#FFA116] mx-auto mb-2" />
+            Loading history...
+          </div>
+        ) : (
+          <>
+            {/* Progress charts from stored baselines */}
+            <h3 className="text-lg font-semibold text-white mb-3">Progress</h3>
+            {profile.progress.length < 2 ? (
+              <div className="px-4 py-6 mb-6 text-center text-gray-400 bg-[#1a1a1a] rounded-lg">
+                Not enough history yet. Charts appear once a few baselines have been captured.
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-4 mb-6">
+                <div className="bg-[#1a1a1a] rounded-lg p-4">
+                  <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">XP</div>
+                  <LineChart labels={labels} series={[{ label: 'XP', color: '#9B5CF6', values: profile.progress.map(p => p.xp) }]} />
+                </div>
+                <div className="bg-[#1a1a1a] rounded-lg p-4">
+                  <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">Solved</div>
+                  <LineChart
+                    labels={labels}
+                    series={[
+                      { label: 'Easy', color: '#00B8A3', values: profile.progress.map(p => p.easy) },
+                      { label: 'Medium', color: '#FFC01E', values: profile.progress.map(p => p.medium) },
+                      { label: 'Hard', color: '#FF375F', values: profile.progress.map(p => p.hard) },
+                    ]}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Final rank in every finished period */}
+            <h3 className="text-lg font-semibold text-white mb-3">Past Rankings</h3>
+            {profile.periodRanks.length === 0 ? (
+              <div className="px-4 py-6 mb-6 text-center text-gray-400 bg-[#1a1a1a] rounded-lg">
+                No finished periods yet.
+              </div>
+            ) : (
+              <div className="grid md:grid-cols-3 gap-4 mb-6">
+                {(Object.keys(PERIOD_LABELS) as SnapshotPeriod[]).map(period => (
+                  <div key={period} className="bg-[#1a1a1a] rounded-lg p-4">
+                    <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{PERIOD_LABELS[period]}</div>
+                    <div className="max-h-48 overflow-y-auto space-y-1">
+                      {profile.periodRanks.filter(r => r.period === period).map(r => (
+                        <div key={r.periodKey} className="flex justify-between text-sm">
+                          <span className="font-mono text-gray-400">{r.periodKey}</span>
+                          <span className="text-white">
+                            #{r.rank}<span className="text-gray-500">/{r.participants}</span>
+                            <span className="text-[#9B5CF6] ml-2">{r.xp} XP</span>
+                          </span>
+                        </div>
+                      ))}
+                      {!profile.periodRanks.some(r => r.period === period) && (
+                        <div className="text-sm text-gray-500">None yet</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Job applications by status */}
+        <h3 className="text-lg font-semibold text-white mb-3">Job Applications</h3>
+        {userJobs.length === 0 ? (
+          <div className="px-4 py-6 text-center text-gray-400 bg-[#1a1a1a] rounded-lg">
+            No jobs tracked yet.
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-4 gap-4">
+            {statuses.map(status => {
+              const inStatus = userJobs.filter(job => job.status === status);
+              return (
+                <div key={status} className="bg-[#1a1a1a] rounded-lg p-4">
+                  <div className={`text-xs font-bold uppercase tracking-wider mb-2 ${STAGE_COLORS[getStageColor(status)].text}`}>
+                    {status} ({inStatus.length})
+                  </div>
+                  <div className="max-h-40 overflow-y-auto space-y-1">
+                    {inStatus.map(job => (
+                      <a
+                        key={job.id}
+                        href={job.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block text-sm text-gray-300 hover:text-white truncate"
+                        title={`${job.title} at ${job.company}`}
+                      >
+                        {job.company} <span className="text-gray-500">· {job.title}</span>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
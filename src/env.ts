@@ -0,0 +1,4 @@
+// Vite injects import.meta.env in the browser. Headless Node scripts (see scripts/)
+// run outside Vite, so they read the same VITE_* variables from process.env instead.
+export const env: Record<string, string | undefined> =
+  (import.meta as any).env ?? (globalThis as any).process?.env ?? {};
@@ -12,8 +12,18 @@ export interface UserStats extends DifficultyStats {
     name?: string;
     rank: number;
     error?: string | null;
+    updatedAt?: string | null; // when the solved counts were last fetched
+    // Activity parsed from LeetCode's submissionCalendar, when the provider returns it
+    submissionCalendar?: SubmissionCalendar;
+    currentStreak?: number;
+    longestStreak?: number;
+    activeDays?: number; // days with a submission in the displayed period
+    stageXp?: number; // part of xp from job pipeline stage bonuses
 }
 
+// Daily submission counts keyed by UTC day, e.g. { "2026-01-15": 3 }
+export type SubmissionCalendar = Record<string, number>;
+
 export type SnapshotPeriod = 'weekly' | 'monthly' | 'yearly';
 
 export interface SnapshotUserStats {
@@ -27,12 +37,153 @@ export interface SnapshotUserStats {
     xp: number;
 }
 
+export interface ScoringRules {
+    version: number;
+    jobApplied: number;
+    easy: number;
+    medium: number;
+    hard: number;
+    stageBonuses?: Record<JobStatus, number>; // XP for a job first reaching each pipeline stage
+    updatedAt?: string;
+}
+
+// settings/scoring: the current rules plus every earlier version
+export interface ScoringSettingsDoc extends ScoringRules {
+    history?: ScoringRules[];
+}
+
+export type SnapshotSource = 'app' | 'scheduler';
+
 export interface LeaderboardSnapshot {
     id?: string;
     period: SnapshotPeriod;
     periodKey: string; // e.g. "2026-W01"
     createdAt: string;
     users: SnapshotUserStats[];
+    // Capture timing; missing on snapshots taken before it was recorded
+    periodStartAt?: string; // exact Los Angeles boundary the baseline belongs to
+    captureDelayMs?: number; // how long after the boundary it was captured
+    capturedOnTime?: boolean;
+    source?: SnapshotSource;
+    scoringVersion?: number; // ScoringRules version the xp values were computed with; missing means 1
+}
+
+export type BaselineIssueType = 'zeroed' | 'decreasing' | 'inconsistent-total';
+
+export interface SnapshotIntegrityIssue {
+    snapshotId?: string;
+    period: SnapshotPeriod;
+    periodKey: string;
+    username: string;
+    issue: BaselineIssueType;
+    detail: string;
+}
+
+export interface StatHistorySample extends SnapshotUserStats {
+    id?: string; // `${username}_${date}`
+    date: string; // e.g. "2026-01-15", Los Angeles day
+    sampledAt: string;
+}
+
+export interface RangeBaselineNote {
+    username: string;
+    name?: string;
+    requestedDate: string;
+    usedDate: string | null; // null when nothing was close enough
+}
+
+export interface RangeLeaderboard {
+    stats: UserStats[];
+    approximate: RangeBaselineNote[]; // baselines taken from a nearby day instead
+    missing: RangeBaselineNote[]; // users left out of the ranking
+}
+
+// A finished period: the baseline that opened it and the next stored baseline after it
+export interface ClosedPeriod {
+    period: SnapshotPeriod;
+    periodKey: string;
+    start: LeaderboardSnapshot;
+    end: LeaderboardSnapshot;
+}
+
+// One point of a user's progress chart, taken from a stored baseline
+export interface UserProgressPoint {
+    date: string; // Los Angeles day the baseline was captured
+    easy: number;
+    medium: number;
+    hard: number;
+    total: number;
+    xp: number;
+}
+
+export interface UserPeriodRank {
+    period: SnapshotPeriod;
+    periodKey: string;
+    rank: number;
+    participants: number;
+    xp: number;
+}
+
+export interface UserProfile {
+    progress: UserProgressPoint[];
+    periodRanks: UserPeriodRank[]; // grouped by period type, newest first within each
+}
+
+export type LeaderboardTab = 'all' | 'jobs' | 'analytics' | 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+// Everything the URL encodes, e.g. /weekly/history/2026-W05 or /jobs/alice
+export type JobSortKey = 'username' | 'title' | 'company' | 'status' | 'createdAt';
+
+// Jobs tab search, filters, sort and page; everything left out is the default
+export interface JobsQuery {
+    search?: string; // matches title or company
+    statuses?: JobStatus[];
+    from?: string; // added on or after this day, "yyyy-MM-dd"
+    to?: string; // added on or before this day
+    sort?: JobSortKey; // default createdAt
+    direction?: 'asc' | 'desc'; // default desc
+    page?: number; // 1-based
+}
+
+export interface AppRoute {
+    tab: LeaderboardTab;
+    jobsUser?: string; // jobs tab filtered to one user
+    jobsQuery?: JobsQuery;
+    analytics?: AnalyticsFilter; // analytics tab filters
+    history?: { periodKey?: string }; // history browser open, at a given closed period or the latest
+    profile?: string; // username whose profile is open
+}
+
+export type MemberRole = 'member' | 'admin';
+
+// Someone's permissions within one group
+export interface GroupMember {
+    uid: string;
+    username: string; // FirestoreUser.username this sign-in belongs to
+    role: MemberRole;
+}
+
+// A sign-in linked to a tracked LeetCode user, stored at accounts/{uid}.
+// Its role applies to the default group; other groups keep their own members.
+export interface Account extends GroupMember {
+    createdAt: string;
+    email?: string; // of the sign-in, so admins know who asked for the link
+    approved?: boolean; // false until an admin approves the link; links from before approvals have none
+    groupIds?: string[]; // groups joined besides the default one
+}
+
+// An independent board with its own users, jobs, snapshots and settings
+export interface Group {
+    id: string;
+    name: string;
+    createdAt?: string;
+    createdBy?: string;
+}
+
+export interface AuthState {
+    signedIn: boolean;
+    email?: string | null;
+    account: Account | null; // null until the sign-in is linked to a username
 }
 
 export interface FirestoreUser {
@@ -40,18 +191,143 @@ export interface FirestoreUser {
     username: string;
     name?: string;
     jobsApplied?: number;
+    archived?: boolean; // hidden from rankings; snapshots and history are kept
+    createdAt?: string;
 }
 
-export interface Job {
+// Job statuses are the names of the group's pipeline stages
+export type JobStatus = string;
+
+export type StageColor = 'blue' | 'green' | 'orange' | 'yellow' | 'red' | 'purple' | 'gray';
+
+export interface PipelineStage {
+    name: JobStatus;
+    color: StageColor;
+    terminal?: boolean; // ends the application, e.g. Rejected
+}
+
+export interface JobPipeline {
+    stages: PipelineStage[];
+    updatedAt?: string;
+}
+
+export interface JobStatusChange {
+    status: JobStatus;
+    changedAt: string;
+}
+
+export interface JobContact {
+    name: string;
+    role: 'Recruiter' | 'Referrer' | 'Other';
+    contact?: string; // email, phone or profile link
+}
+
+// Stored apart from the job in jobs/{jobId}/private/details, readable only by its owner and admins
+export interface JobPrivateDetails {
+    notes?: string;
+    contacts?: JobContact[];
+}
+
+// Optional extras a job can carry; dates are "yyyy-MM-dd", interview times "yyyy-MM-ddTHH:mm"
+export interface JobDetails extends JobPrivateDetails {
+    assessmentDeadline?: string;
+    interviewDates?: string[];
+    followUpOn?: string;
+}
+
+export interface Job extends JobDetails {
     id?: string;
     username: string;
     title: string;
     company: string;
     url: string;
-    status: 'Applied' | 'Assessment' | 'Interview' | 'Offer';
+    status: JobStatus;
+    statusHistory?: JobStatusChange[]; // oldest first; missing on jobs added before it was tracked
     createdAt: string;
 }
 
+// A job that looks like the same posting as another one
+export interface JobMatch {
+    job: Job;
+    reason: 'url' | 'similar'; // same normalized URL, or close company and title
+}
+
+export interface JobReminder {
+    kind: 'followUp' | 'assessment' | 'interview';
+    date: string; // day key, "yyyy-MM-dd"
+    overdue: boolean;
+}
+
+// Job fields a CSV column can be mapped to
+export type JobImportField = 'username' | 'title' | 'company' | 'url' | 'status' | 'createdAt' | 'notes' | 'assessmentDeadline' | 'followUpOn';
+
+// Column index per field; unmapped fields use their default (or fail when required)
+export type JobImportMapping = Partial<Record<JobImportField, number>>;
+
+export interface JobImportRow {
+    line: number; // 1-based line in the file, counting the header
+    job?: Omit<Job, 'id'>; // set when the row is valid
+    errors: string[];
+    duplicate?: boolean; // the user already has a matching job
+}
+
+// A group's data as one JSON file. Documents keep their Firestore IDs in `id`.
+export interface LeetBoardBackup {
+    schemaVersion: number;
+    exportedAt: string;
+    groupId: string;
+    users: FirestoreUser[];
+    jobs: Job[];
+    leaderboardSnapshots: LeaderboardSnapshot[];
+    statHistory: StatHistorySample[];
+    settings: {
+        scoring?: ScoringSettingsDoc;
+        pipeline?: JobPipeline;
+    };
+}
+
+export type BackupCollection = 'users' | 'jobs' | 'leaderboardSnapshots' | 'statHistory' | 'settings';
+
+// merge overwrites documents with the same ID and keeps the rest; replace also deletes the rest
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreCounts {
+    created: number;
+    overwritten: number;
+    deleted: number;
+}
+
+export interface RestoreReport {
+    mode: RestoreMode;
+    dryRun: boolean; // counts what would change without writing
+    counts: Record<BackupCollection, RestoreCounts>;
+}
+
+export type StatsProviderName = 'heroku' | 'graphql' | 'fixture';
+
+export interface SolvedStats {
+    easy: number;
+    medium: number;
+    hard: number;
+    total: number;
+    submissionCalendar?: SubmissionCalendar;
+}
+
+export interface CachedSolvedStats extends SolvedStats {
+    username: string;
+    fetchedAt: string;
+}
+
+export interface FetchProgress {
+    completed: number;
+    total: number;
+}
+
+export interface StatsProvider {
+    name: StatsProviderName;
+    fetchSolvedStats: (username: string) => Promise<SolvedStats>;
+}
+
 export interface LeetCodeResponse {
     status: string;
     message: string;
@@ -69,3 +345,44 @@ export interface LeetCodeResponse {
     reputation: number;
     submissionCalendar: Record<string, unknown>;
 }
+
+export interface LeetCodeGraphQLResponse {
+    data?: {
+        matchedUser: {
+            submitStatsGlobal: {
+                acSubmissionNum: { difficulty: 'All' | 'Easy' | 'Medium' | 'Hard'; count: number }[];
+            };
+            submissionCalendar?: string; // JSON-encoded { unixSeconds: count }
+        } | null;
+    };
+    errors?: { message: string }[];
+}
+
+// Analytics tab scope: one member or the whole group, optionally limited to jobs added in a range
+export interface AnalyticsFilter {
+    username?: string;
+    from?: string; // "yyyy-MM-dd", inclusive
+    to?: string;
+}
+
+export interface FunnelStageStats {
+    stage: JobStatus;
+    reached: number; // jobs that got to this stage or further
+    conversion: number | null; // share of them that reached the next stage; null for the last stage
+    medianDays: number | null; // median time spent in the stage before moving on
+}
+
+export interface CompanyResponse {
+    company: string;
+    applications: number;
+    responses: number;
+    rate: number;
+}
+
+export interface FunnelAnalytics {
+    applications: number;
+    responseRate: number | null;
+    stages: FunnelStageStats[];
+    perWeek: { weekKey: string; count: number }[];
+    topCompanies: CompanyResponse[];
+}
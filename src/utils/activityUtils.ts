@@ -0,0 +1,58 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { SubmissionCalendar } from '../types';
+
+const shiftDay = (day: string, amount: number): string => format(addDays(parseISO(day), amount), 'yyyy-MM-dd');
+
+// LeetCode buckets submissionCalendar by UTC day, so "today" is the UTC date too
+export const getUtcDayKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+/**
+ * Parses LeetCode's submissionCalendar into daily counts. The Heroku API returns
+ * an object and GraphQL a JSON string, both keyed by the day's unix timestamp in seconds.
+ */
+export const parseSubmissionCalendar = (raw: unknown): SubmissionCalendar => {
+    let entries: Record<string, unknown> = {};
+    try {
+        entries = typeof raw === 'string' ? JSON.parse(raw) : (raw as Record<string, unknown>) ?? {};
+    } catch {
+        return {};
+    }
+
+    const daily: SubmissionCalendar = {};
+    Object.entries(entries).forEach(([timestamp, count]) => {
+        const seconds = Number(timestamp);
+        const submissions = Number(count);
+        if (Number.isNaN(seconds) || Number.isNaN(submissions) || submissions <= 0) return;
+        const day = getUtcDayKey(new Date(seconds * 1000));
+        daily[day] = (daily[day] || 0) + submissions;
+    });
+    return daily;
+};
+
+/**
+ * Current and longest run of consecutive days with submissions.
+ * The current streak is still alive if the last active day was today or yesterday.
+ */
+export const computeStreaks = (
+    daily: SubmissionCalendar,
+    today: string = getUtcDayKey()
+): { currentStreak: number, longestStreak: number } => {
+    const days = Object.keys(daily).filter(day => daily[day] > 0 && day <= today).sort();
+
+    let longestStreak = 0;
+    let run = 0;
+    days.forEach((day, i) => {
+        run = i > 0 && shiftDay(days[i - 1], 1) === day ? run + 1 : 1;
+        longestStreak = Math.max(longestStreak, run);
+    });
+
+    const lastDay = days[days.length - 1];
+    const alive = lastDay === today || lastDay === shiftDay(today, -1);
+
+    return { currentStreak: alive ? run : 0, longestStreak };
+};
+
+// Number of days in [from, to] (inclusive day keys) with at least one submission
+export const countActiveDays = (daily: SubmissionCalendar, from: string, to: string = getUtcDayKey()): number => {
+    return Object.keys(daily).filter(day => daily[day] > 0 && day >= from && day <= to).length;
+};
@@ -0,0 +1,120 @@
+import { AnalyticsFilter, CompanyResponse, FunnelAnalytics, FunnelStageStats, Job, JobPipeline } from '../types';
+import { getJobDayKey, getPipeline, getStage, getStatusHistory } from './jobUtils';
+import { getNextPeriodKey, getWeeklyPeriodKey, toZonedDate } from './dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Closed stages that don't mean the company replied
+const NO_RESPONSE_STATUSES = ['Ghosted', 'Withdrawn'];
+
+// Companies need this many applications to be ranked, so one lucky reply doesn't top the list
+const MIN_COMPANY_APPLICATIONS = 2;
+const TOP_COMPANIES = 5;
+
+// At most this many weeks of applications are charted
+const MAX_WEEKS = 52;
+
+export const filterJobsForAnalytics = (jobs: Job[], filter: AnalyticsFilter): Job[] => {
+    return jobs.filter(job =>
+        (!filter.username || job.username === filter.username)
+        && (!filter.from || getJobDayKey(job) >= filter.from)
+        && (!filter.to || getJobDayKey(job) <= filter.to));
+};
+
+const median = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Index of the furthest open stage a job got to. Every job counts as having reached
+ * the first one, even if it's only known by a closed status. Jobs from before status
+ * history was kept only know their current stage, which implies they passed the ones before it.
+ */
+const furthestStage = (job: Job, openStages: string[]): number => {
+    return Math.max(0, ...getStatusHistory(job).map(change => openStages.indexOf(change.status)), openStages.indexOf(job.status));
+};
+
+const hasResponse = (job: Job, openStages: string[], pipeline: JobPipeline): boolean => {
+    if (furthestStage(job, openStages) > 0) return true;
+    return getStage(job.status, pipeline)?.terminal === true && !NO_RESPONSE_STATUSES.includes(job.status);
+};
+
+const computeStages = (jobs: Job[], openStages: string[]): FunnelStageStats[] => {
+    const reached = openStages.map((_, i) => jobs.filter(job => furthestStage(job, openStages) >= i).length);
+
+    // Time in a stage runs from entering it until the next status change
+    const daysInStage = new Map<string, number[]>(openStages.map(stage => [stage, []]));
+    jobs.forEach(job => {
+        const history = getStatusHistory(job);
+        history.slice(0, -1).forEach((change, i) => {
+            const days = (new Date(history[i + 1].changedAt).getTime() - new Date(change.changedAt).getTime()) / DAY_MS;
+            daysInStage.get(change.status)?.push(days);
+        });
+    });
+
+    return openStages.map((stage, i) => ({
+        stage,
+        reached: reached[i],
+        conversion: i < openStages.length - 1 && reached[i] > 0 ? reached[i + 1] / reached[i] : null,
+        medianDays: median(daysInStage.get(stage)!),
+    }));
+};
+
+// Weekly application counts, including empty weeks, up to the latest week with an application
+const computePerWeek = (jobs: Job[]): FunnelAnalytics['perWeek'] => {
+    const counts = new Map<string, number>();
+    jobs.filter(job => job.createdAt).forEach(job => {
+        const weekKey = getWeeklyPeriodKey(toZonedDate(job.createdAt));
+        counts.set(weekKey, (counts.get(weekKey) ?? 0) + 1);
+    });
+    if (counts.size === 0) return [];
+
+    const weekKeys = [...counts.keys()].sort();
+    const last = weekKeys[weekKeys.length - 1];
+    const perWeek: FunnelAnalytics['perWeek'] = [];
+    for (let weekKey = weekKeys[0]; weekKey <= last; weekKey = getNextPeriodKey('weekly', weekKey)) {
+        perWeek.push({ weekKey, count: counts.get(weekKey) ?? 0 });
+    }
+    return perWeek.slice(-MAX_WEEKS);
+};
+
+const computeTopCompanies = (jobs: Job[], openStages: string[], pipeline: JobPipeline): CompanyResponse[] => {
+    // Company names are grouped case-insensitively, keeping the first spelling seen
+    const byCompany = new Map<string, CompanyResponse>();
+    jobs.forEach(job => {
+        const key = job.company.trim().toLowerCase();
+        const entry = byCompany.get(key) ?? { company: job.company.trim(), applications: 0, responses: 0, rate: 0 };
+        entry.applications += 1;
+        if (hasResponse(job, openStages, pipeline)) entry.responses += 1;
+        byCompany.set(key, entry);
+    });
+
+    return [...byCompany.values()]
+        .filter(entry => entry.applications >= MIN_COMPANY_APPLICATIONS)
+        .map(entry => ({ ...entry, rate: entry.responses / entry.applications }))
+        .filter(entry => entry.responses > 0)
+        .sort((a, b) => b.rate - a.rate || b.applications - a.applications)
+        .slice(0, TOP_COMPANIES);
+};
+
+/**
+ * Funnel numbers for a set of jobs: how many reached each open pipeline stage,
+ * conversion to the next one, median days per stage, applications per week and
+ * the companies that replied most often. A reply is reaching a later stage or
+ * being closed by the company (e.g. Rejected, but not Ghosted).
+ */
+export const computeFunnelAnalytics = (jobs: Job[], pipeline: JobPipeline = getPipeline()): FunnelAnalytics => {
+    const openStages = pipeline.stages.filter(stage => !stage.terminal).map(stage => stage.name);
+    const responses = jobs.filter(job => hasResponse(job, openStages, pipeline)).length;
+
+    return {
+        applications: jobs.length,
+        responseRate: jobs.length > 0 ? responses / jobs.length : null,
+        stages: computeStages(jobs, openStages),
+        perWeek: computePerWeek(jobs),
+        topCompanies: computeTopCompanies(jobs, openStages, pipeline),
+    };
+};
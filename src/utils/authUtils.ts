@@ -0,0 +1,215 @@
+import { auth, db } from '../firebase';
+import {
+    GoogleAuthProvider,
+    onAuthStateChanged,
+    signInWithEmailAndPassword,
+    signInWithPopup,
+    signOut
+} from 'firebase/auth';
+import { collection, doc, getDoc, getDocs, query, updateDoc, where, writeBatch } from 'firebase/firestore';
+import { Account, AuthState, GroupMember } from '../types';
+import { env } from '../env';
+
+const ACCOUNTS_COLLECTION = 'accounts';
+// One document per linked username ({uid}), so the rules can keep a username to a single account
+const CLAIMS_COLLECTION = 'usernameClaims';
+
+type AuthListener = (state: AuthState) => void;
+
+let currentState: AuthState = { signedIn: false, account: null };
+const listeners = new Set<AuthListener>();
+
+let resolveReady: (state: AuthState) => void;
+const ready = new Promise<AuthState>(resolve => { resolveReady = resolve; });
+let watching = false;
+
+const notify = (state: AuthState) => {
+    currentState = state;
+    resolveReady(state);
+    listeners.forEach(listener => listener(state));
+};
+
+const loadAccount = async (uid: string): Promise<Account | null> => {
+    try {
+        const accountDoc = await getDoc(doc(db, ACCOUNTS_COLLECTION, uid));
+        if (!accountDoc.exists()) return null;
+        return { uid, ...(accountDoc.data() as Omit<Account, 'uid'>) };
+    } catch (error) {
+        console.error('Error loading account:', error);
+        return null;
+    }
+};
+
+// Starts following Firebase Auth on first use
+const watchAuth = () => {
+    if (watching) return;
+    watching = true;
+    onAuthStateChanged(auth, async (user) => {
+        notify(user
+            ? { signedIn: true, email: user.email, account: await loadAccount(user.uid) }
+            : { signedIn: false, account: null });
+    });
+};
+
+/**
+ * Resolves once the persisted sign-in (if any) has been restored and its account loaded.
+ * Writes that need permissions should wait for this before deciding what to attempt.
+ */
+export const waitForAuth = (): Promise<AuthState> => {
+    watchAuth();
+    return ready;
+};
+
+export const getAuthState = (): AuthState => currentState;
+
+/**
+ * Subscribe to sign-in and account changes. Returns an unsubscribe function.
+ */
+export const subscribeToAuth = (listener: AuthListener): (() => void) => {
+    watchAuth();
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const signIn = async (): Promise<void> => {
+    await signInWithPopup(auth, new GoogleAuthProvider());
+};
+
+export const signOutUser = async (): Promise<void> => {
+    await signOut(auth);
+};
+
+/**
+ * Headless sign-in for scripts/, using LEETBOARD_EMAIL and LEETBOARD_PASSWORD
+ * (an email/password account linked like any other). Returns false when unset.
+ */
+export const signInFromEnv = async (): Promise<boolean> => {
+    const email = env.LEETBOARD_EMAIL;
+    const password = env.LEETBOARD_PASSWORD;
+    if (!email || !password) return false;
+
+    const { user } = await signInWithEmailAndPassword(auth, email, password);
+    notify({ signedIn: true, email: user.email, account: await loadAccount(user.uid) });
+    return true;
+};
+
+/**
+ * Asks to link the signed-in account to a tracked username as a regular member.
+ * Nothing proves the person owns the LeetCode account, so the link does nothing
+ * until an admin approves it. The account and its username claim are written
+ * together; the security rules reject the batch when someone else already
+ * claimed the username.
+ */
+export const linkAccount = async (username: string): Promise<Account> => {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Sign in before linking an account.');
+
+    const account: Account = {
+        uid: user.uid,
+        username,
+        role: 'member',
+        createdAt: new Date().toISOString(),
+        ...(user.email ? { email: user.email } : {}),
+        approved: false,
+    };
+    const { uid, ...accountData } = account;
+
+    const batch = writeBatch(db);
+    batch.set(doc(db, ACCOUNTS_COLLECTION, uid), accountData);
+    batch.set(doc(db, CLAIMS_COLLECTION, username), { uid });
+    await batch.commit();
+
+    notify({ ...currentState, account });
+    return account;
+};
+
+// Reloads the signed-in account, e.g. after it joined a group
+export const refreshAccount = async (): Promise<void> => {
+    const user = auth.currentUser;
+    if (!user) return;
+    notify({ ...currentState, account: await loadAccount(user.uid) });
+};
+
+/**
+ * Moves the account linked to a renamed LeetCode username (and its claim) to the new
+ * username. Admin only; used when a member's username changes in the default group.
+ */
+export const relinkUsername = async (oldUsername: string, newUsername: string): Promise<void> => {
+    const accountDocs = await getDocs(query(collection(db, ACCOUNTS_COLLECTION), where('username', '==', oldUsername)));
+    if (accountDocs.empty) return;
+
+    const batch = writeBatch(db);
+    accountDocs.docs.forEach(accountDoc => {
+        batch.update(accountDoc.ref, { username: newUsername });
+        batch.set(doc(db, CLAIMS_COLLECTION, newUsername), { uid: accountDoc.id });
+    });
+    batch.delete(doc(db, CLAIMS_COLLECTION, oldUsername));
+    await batch.commit();
+    await refreshAccount();
+};
+
+/**
+ * Removes the account linked to a deleted LeetCode username, and its claim, so that
+ * sign-in can no longer write as the username. Admin only; used when a member is
+ * deleted from the default group. The person can sign in and link again later.
+ */
+export const unlinkUsername = async (username: string): Promise<void> => {
+    const accountDocs = await getDocs(query(collection(db, ACCOUNTS_COLLECTION), where('username', '==', username)));
+
+    const batch = writeBatch(db);
+    accountDocs.docs.forEach(accountDoc => batch.delete(accountDoc.ref));
+    batch.delete(doc(db, CLAIMS_COLLECTION, username));
+    await batch.commit();
+    await refreshAccount();
+};
+
+// Links made before approvals existed have no flag and count as approved
+export const isApproved = (account: Account | null): account is Account => account !== null && account.approved !== false;
+
+// Links waiting for an admin, oldest first
+export const loadPendingAccounts = async (): Promise<Account[]> => {
+    try {
+        const accountDocs = await getDocs(query(collection(db, ACCOUNTS_COLLECTION), where('approved', '==', false)));
+        return accountDocs.docs
+            .map(d => ({ uid: d.id, ...(d.data() as Omit<Account, 'uid'>) }))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+        console.error('Error loading pending accounts:', error);
+        return [];
+    }
+};
+
+// Admin only: the sign-in can act as its username from now on
+export const approveAccount = async (account: Account): Promise<void> => {
+    await updateDoc(doc(db, ACCOUNTS_COLLECTION, account.uid), { approved: true });
+    console.log(`✅ Approved ${account.email ?? account.uid} as ${account.username}`);
+};
+
+/**
+ * Admin only: drops a link request and frees its username, so the real owner can
+ * link it. The person can sign in and ask again.
+ */
+export const rejectAccount = async (account: Account): Promise<void> => {
+    const batch = writeBatch(db);
+    batch.delete(doc(db, ACCOUNTS_COLLECTION, account.uid));
+    const claim = await getDoc(doc(db, CLAIMS_COLLECTION, account.username));
+    if (claim.exists() && claim.data().uid === account.uid) batch.delete(claim.ref);
+    await batch.commit();
+};
+
+// Usernames that already belong to an account
+export const loadClaimedUsernames = async (): Promise<Set<string>> => {
+    try {
+        const claimDocs = await getDocs(collection(db, CLAIMS_COLLECTION));
+        return new Set(claimDocs.docs.map(d => d.id));
+    } catch (error) {
+        console.error('Error loading username claims:', error);
+        return new Set();
+    }
+};
+
+export const isAdmin = (member: GroupMember | null): boolean => member?.role === 'admin';
+
+// Members manage their own jobs; admins manage everyone's
+export const canManageJobsOf = (member: GroupMember | null, username: string): boolean =>
+    isAdmin(member) || member?.username === username;
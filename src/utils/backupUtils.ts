@@ -0,0 +1,329 @@
+import { getDocs, WriteBatch } from 'firebase/firestore';
+import {
+    BackupCollection,
+    FirestoreUser,
+    Job,
+    JobContact,
+    JobPipeline,
+    JobStatusChange,
+    LeaderboardSnapshot,
+    LeetBoardBackup,
+    PipelineStage,
+    RestoreCounts,
+    RestoreMode,
+    RestoreReport,
+    ScoringRules,
+    ScoringSettingsDoc,
+    SnapshotUserStats,
+    StatHistorySample
+} from '../types';
+import { getActiveGroupId, groupCollection, groupDoc } from './groupUtils';
+import { commitInBatches } from './userUtils';
+import { STAGE_COLORS, jobDeleteWrites, jobDetailsDoc, loadPrivateJobDetails, splitPrivateDetails } from './jobUtils';
+
+// Bump when the file layout or a stored type changes in a way older files need converting for
+export const BACKUP_SCHEMA_VERSION = 1;
+
+// Restored in this order, so settings are in place before the data scored with them
+const BACKUP_COLLECTIONS: BackupCollection[] = ['settings', 'users', 'jobs', 'leaderboardSnapshots', 'statHistory'];
+
+// settings documents a backup knows about
+const SETTINGS_DOC_IDS = ['scoring', 'pipeline'] as const;
+
+interface BackupIssues {
+    errors: string[];
+    warnings: string[];
+}
+
+// Checks one value, reporting problems under its path (e.g. "jobs[3].status")
+type Check = (value: unknown, path: string, issues: BackupIssues) => void;
+
+// A check for every field of T, optional ones included, so a field added to a type
+// in types.ts doesn't compile here until the backup validates it too
+type Shape<T> = { [K in keyof Required<T>]: Check };
+
+const describe = (value: unknown): string =>
+    value === undefined ? 'nothing' : value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typed = (type: 'string' | 'number' | 'boolean'): Check => (value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+        issues.errors.push(`${path}: expected ${type}, got ${describe(value)}`);
+    }
+};
+
+const str = typed('string');
+const num = typed('number');
+const bool = typed('boolean');
+
+const optional = (check: Check): Check => (value, path, issues) => {
+    if (value !== undefined) check(value, path, issues);
+};
+
+const oneOf = (...values: string[]): Check => (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+        issues.errors.push(`${path}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+};
+
+const arrayOf = (check: Check): Check => (value, path, issues) => {
+    if (!Array.isArray(value)) {
+        issues.errors.push(`${path}: expected array, got ${describe(value)}`);
+        return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+};
+
+const recordOf = (check: Check): Check => (value, path, issues) => {
+    if (!isObject(value)) {
+        issues.errors.push(`${path}: expected object, got ${describe(value)}`);
+        return;
+    }
+    Object.entries(value).forEach(([key, item]) => check(item, `${path}.${key}`, issues));
+};
+
+// Fields the types don't know about are kept, but reported
+const shape = <T>(fields: Shape<T>): Check => (value, path, issues) => {
+    if (!isObject(value)) {
+        issues.errors.push(`${path || 'file'}: expected object, got ${describe(value)}`);
+        return;
+    }
+    const fieldPath = (key: string) => path ? `${path}.${key}` : key;
+    Object.entries<Check>(fields).forEach(([key, check]) => check(value[key], fieldPath(key), issues));
+    Object.keys(value)
+        .filter(key => !(key in fields))
+        .forEach(key => issues.warnings.push(`${fieldPath(key)}: not in the schema, restored as is`));
+};
+
+// Stored documents need their ID to be restored under it
+const documentsOf = <T>(fields: Shape<T>): Check => (value, path, issues) => {
+    arrayOf(shape(fields))(value, path, issues);
+    if (!Array.isArray(value)) return;
+    const seen = new Set<unknown>();
+    value.forEach((item, i) => {
+        if (!isObject(item) || typeof item.id !== 'string') return;
+        if (!item.id || item.id.includes('/')) issues.errors.push(`${path}[${i}].id: not a valid document ID`);
+        if (seen.has(item.id)) issues.errors.push(`${path}[${i}].id: "${item.id}" appears more than once`);
+        seen.add(item.id);
+    });
+};
+
+const snapshotUserFields: Shape<SnapshotUserStats> = {
+    username: str,
+    name: optional(str),
+    jobsApplied: num,
+    easy: num,
+    medium: num,
+    hard: num,
+    total: num,
+    xp: num,
+};
+
+const scoringRulesFields: Shape<ScoringRules> = {
+    version: num,
+    jobApplied: num,
+    easy: num,
+    medium: num,
+    hard: num,
+    stageBonuses: optional(recordOf(num)),
+    updatedAt: optional(str),
+};
+
+const userFields: Shape<FirestoreUser> = {
+    id: str,
+    username: str,
+    name: optional(str),
+    jobsApplied: optional(num),
+    archived: optional(bool),
+    createdAt: optional(str),
+};
+
+const jobFields: Shape<Job> = {
+    id: str,
+    username: str,
+    title: str,
+    company: str,
+    url: str,
+    status: str,
+    statusHistory: optional(arrayOf(shape<JobStatusChange>({ status: str, changedAt: str }))),
+    // Required by the type, but the earliest jobs were stored without it
+    createdAt: optional(str),
+    notes: optional(str),
+    contacts: optional(arrayOf(shape<JobContact>({ name: str, role: oneOf('Recruiter', 'Referrer', 'Other'), contact: optional(str) }))),
+    assessmentDeadline: optional(str),
+    interviewDates: optional(arrayOf(str)),
+    followUpOn: optional(str),
+};
+
+const snapshotFields: Shape<LeaderboardSnapshot> = {
+    id: str,
+    period: oneOf('weekly', 'monthly', 'yearly'),
+    periodKey: str,
+    createdAt: str,
+    users: arrayOf(shape(snapshotUserFields)),
+    periodStartAt: optional(str),
+    captureDelayMs: optional(num),
+    capturedOnTime: optional(bool),
+    source: optional(oneOf('app', 'scheduler')),
+    scoringVersion: optional(num),
+};
+
+const statHistoryFields: Shape<StatHistorySample> = {
+    ...snapshotUserFields,
+    id: str,
+    date: str,
+    sampledAt: str,
+};
+
+const pipelineFields: Shape<JobPipeline> = {
+    stages: arrayOf(shape<PipelineStage>({
+        name: str,
+        color: oneOf(...Object.keys(STAGE_COLORS)),
+        terminal: optional(bool),
+    })),
+    updatedAt: optional(str),
+};
+
+const backupFields: Shape<LeetBoardBackup> = {
+    schemaVersion: (value, path, issues) => {
+        if (value === BACKUP_SCHEMA_VERSION) return;
+        issues.errors.push(typeof value === 'number' && value > BACKUP_SCHEMA_VERSION
+            ? `${path}: ${value} was written by a newer LeetBoard (this one reads ${BACKUP_SCHEMA_VERSION})`
+            : `${path}: expected ${BACKUP_SCHEMA_VERSION}, got ${JSON.stringify(value)}`);
+    },
+    exportedAt: str,
+    groupId: str,
+    users: documentsOf(userFields),
+    jobs: documentsOf(jobFields),
+    leaderboardSnapshots: documentsOf(snapshotFields),
+    statHistory: documentsOf(statHistoryFields),
+    settings: shape<LeetBoardBackup['settings']>({
+        scoring: optional(shape<ScoringSettingsDoc>({
+            ...scoringRulesFields,
+            history: optional(arrayOf(shape(scoringRulesFields))),
+        })),
+        pipeline: optional(shape(pipelineFields)),
+    }),
+};
+
+/**
+ * Checks parsed JSON against the backup layout and the stored types. Errors make the
+ * file unusable; warnings (fields the types don't know) are restored as they are.
+ */
+export const validateBackup = (data: unknown): { backup: LeetBoardBackup | null } & BackupIssues => {
+    const issues: BackupIssues = { errors: [], warnings: [] };
+    shape(backupFields)(data, '', issues);
+    return { backup: issues.errors.length === 0 ? data as LeetBoardBackup : null, ...issues };
+};
+
+const readCollection = async <T>(name: Exclude<BackupCollection, 'settings'>): Promise<T[]> => {
+    const snapshot = await getDocs(groupCollection(name));
+    return snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as T);
+};
+
+// Backups keep each job's notes and contacts on the job. Reading them needs an admin;
+// without one the jobs are backed up as everyone sees them.
+const withPrivateDetails = async (jobs: Job[]): Promise<Job[]> => {
+    try {
+        return await Promise.all(jobs.map(async job => ({ ...job, ...await loadPrivateJobDetails(job) })));
+    } catch (error) {
+        console.warn('⚠️ Notes and contacts need an admin sign-in; backing up jobs without them', error);
+        return jobs;
+    }
+};
+
+// A job's document, then its private details: written, or deleted when the backup has none
+const jobRestoreWrites = (id: string, job: object): ((batch: WriteBatch) => void)[] => {
+    const { publicFields, privateDetails } = splitPrivateDetails(job as Omit<Job, 'id'>);
+    return [
+        batch => batch.set(groupDoc('jobs', id), publicFields),
+        Object.keys(privateDetails).length > 0
+            ? batch => batch.set(jobDetailsDoc(id), privateDetails)
+            : batch => batch.delete(jobDetailsDoc(id)),
+    ];
+};
+
+/**
+ * Reads every document of the active group into one backup. Reads are public,
+ * except for jobs' notes and contacts, which need an admin sign-in.
+ */
+export const exportBackup = async (): Promise<LeetBoardBackup> => {
+    const [users, jobs, leaderboardSnapshots, statHistory, settingsDocs] = await Promise.all([
+        readCollection<FirestoreUser>('users'),
+        readCollection<Job>('jobs').then(withPrivateDetails),
+        readCollection<LeaderboardSnapshot>('leaderboardSnapshots'),
+        readCollection<StatHistorySample>('statHistory'),
+        getDocs(groupCollection('settings')),
+    ]);
+
+    const settings: LeetBoardBackup['settings'] = {};
+    settingsDocs.docs.forEach(d => {
+        if (d.id === 'scoring') settings.scoring = d.data() as ScoringSettingsDoc;
+        else if (d.id === 'pipeline') settings.pipeline = d.data() as JobPipeline;
+        else console.warn(`⚠️ Skipping unknown settings document "${d.id}"`);
+    });
+
+    console.log(`💾 Backed up ${users.length} user(s), ${jobs.length} job(s), ${leaderboardSnapshots.length} snapshot(s) and ${statHistory.length} history sample(s)`);
+    return {
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        groupId: getActiveGroupId(),
+        users,
+        jobs,
+        leaderboardSnapshots,
+        statHistory,
+        settings,
+    };
+};
+
+// The backup's documents of one collection, keyed by ID without the id field
+const backupDocuments = (backup: LeetBoardBackup, name: BackupCollection): Map<string, object> => {
+    if (name === 'settings') {
+        return new Map(SETTINGS_DOC_IDS
+            .filter(id => backup.settings[id])
+            .map(id => [id, backup.settings[id]!]));
+    }
+    const docs: { id?: string }[] = backup[name];
+    return new Map(docs.map(({ id, ...data }) => [id!, data]));
+};
+
+/**
+ * Writes a validated backup into the active group. Documents are restored under their
+ * original IDs, overwriting whatever is stored there; replace also deletes documents the
+ * backup doesn't have. A dry run only counts. Needs an admin account for the group.
+ * Not atomic across batches: re-running the same restore after a failure finishes it.
+ */
+export const restoreBackup = async (backup: LeetBoardBackup, mode: RestoreMode, dryRun: boolean): Promise<RestoreReport> => {
+    const writes: ((batch: WriteBatch) => void)[] = [];
+    const counts = {} as Record<BackupCollection, RestoreCounts>;
+
+    for (const name of BACKUP_COLLECTIONS) {
+        const existing = new Set((await getDocs(groupCollection(name))).docs.map(d => d.id));
+        const restored = backupDocuments(backup, name);
+        // Only the settings a backup knows about are ever removed
+        const removed = mode === 'replace'
+            ? [...existing].filter(id => !restored.has(id) && (name !== 'settings' || (SETTINGS_DOC_IDS as readonly string[]).includes(id)))
+            : [];
+
+        counts[name] = {
+            created: [...restored.keys()].filter(id => !existing.has(id)).length,
+            overwritten: [...restored.keys()].filter(id => existing.has(id)).length,
+            deleted: removed.length,
+        };
+        // Jobs bring their private notes and contacts along
+        restored.forEach((data, id) => writes.push(...name === 'jobs'
+            ? jobRestoreWrites(id, data)
+            : [(batch: WriteBatch) => batch.set(groupDoc(name, id), data)]));
+        removed.forEach(id => writes.push(...name === 'jobs'
+            ? jobDeleteWrites(id)
+            : [(batch: WriteBatch) => batch.delete(groupDoc(name, id))]));
+    }
+
+    if (!dryRun) {
+        await commitInBatches(writes);
+        console.log(`♻️ Restored backup from ${backup.exportedAt} into ${getActiveGroupId()} (${mode})`);
+    }
+    return { mode, dryRun, counts };
+};
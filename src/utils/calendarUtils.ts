@@ -0,0 +1,128 @@
+import { Job } from '../types';
+import { fromBoardTime } from './dateUtils';
+import { isTerminalStatus } from './jobUtils';
+
+// Interviews only have a start time; calendars get a block of this length
+const INTERVIEW_MINUTES = 60;
+
+// Escapes TEXT values (RFC 5545 3.3.11)
+const escapeText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// UTF-8 length of one character (code point)
+const utf8Length = (char: string): number => {
+    const codePoint = char.codePointAt(0)!;
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1).
+// Parts are kept to 74 octets so a continuation fits with its space, and are only
+// cut between characters, never inside a multi-byte one.
+const foldLine = (line: string): string => {
+    const parts: string[] = [];
+    let part = '';
+    let partLength = 0;
+    for (const char of line) {
+        const length = utf8Length(char);
+        if (partLength + length > 74) {
+            parts.push(part);
+            part = '';
+            partLength = 0;
+        }
+        part += char;
+        partLength += length;
+    }
+    parts.push(part);
+    return parts.join('\r\n ');
+};
+
+// "2026-01-15T22:00:00.000Z" -> "20260115T220000Z"
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// "2026-01-15" -> "20260115"
+const formatDay = (dayKey: string): string => dayKey.replace(/-/g, '');
+
+const nextDay = (dayKey: string): string => {
+    const date = new Date(`${dayKey}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().slice(0, 10);
+};
+
+// Feeds are published files, so private notes never go in them
+const jobDescription = (job: Job): string => [
+    `${job.title} at ${job.company} (${job.status})`,
+    job.url,
+].filter(Boolean).join('\n');
+
+const allDayEvent = (uid: string, dayKey: string, summary: string, job: Job, stamp: string): string[] => [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDay(dayKey)}`,
+    `DTEND;VALUE=DATE:${formatDay(nextDay(dayKey))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(jobDescription(job))}`,
+    'END:VEVENT',
+];
+
+/**
+ * Events for a job's interviews, assessment deadline and follow-up date.
+ * UIDs only depend on the job and the date, so subscribed calendars update
+ * events in place instead of duplicating them on every refresh.
+ */
+const jobEvents = (job: Job, stamp: string): string[] => {
+    const lines: string[] = [];
+    const id = job.id ?? `${job.username}-${job.createdAt}`;
+
+    (job.interviewDates ?? []).forEach(interview => {
+        // Interview times are entered as Los Angeles wall-clock times, like every other board date
+        const start = fromBoardTime(interview);
+        const end = new Date(start.getTime() + INTERVIEW_MINUTES * 60 * 1000);
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${id}-interview-${formatUtc(start)}@leetboard`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${formatUtc(start)}`,
+            `DTEND:${formatUtc(end)}`,
+            `SUMMARY:${escapeText(`Interview: ${job.company} (${job.username})`)}`,
+            `DESCRIPTION:${escapeText(jobDescription(job))}`,
+            'END:VEVENT',
+        );
+    });
+    if (job.assessmentDeadline) {
+        lines.push(...allDayEvent(`${id}-assessment@leetboard`, job.assessmentDeadline, `Assessment due: ${job.company} (${job.username})`, job, stamp));
+    }
+    if (job.followUpOn) {
+        lines.push(...allDayEvent(`${id}-follow-up@leetboard`, job.followUpOn, `Follow up: ${job.company} (${job.username})`, job, stamp));
+    }
+    return lines;
+};
+
+/**
+ * An iCalendar (.ics) document with the dates of every job that's still open.
+ */
+export const buildJobCalendar = (jobs: Job[], calendarName: string): string => {
+    const stamp = formatUtc(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//LeetBoard//Jobs//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        'X-WR-TIMEZONE:America/Los_Angeles',
+        ...jobs.filter(job => !isTerminalStatus(job.status)).flatMap(job => jobEvents(job, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Saves the calendar through the browser's download prompt
+export const downloadJobCalendar = (jobs: Job[], calendarName: string, fileName: string): void => {
+    const blob = new Blob([buildJobCalendar(jobs, calendarName)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
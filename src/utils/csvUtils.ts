@@ -0,0 +1,246 @@
+import { db } from '../firebase';
+import { doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { FirestoreUser, Job, JobImportField, JobImportMapping, JobImportRow, JobPipeline } from '../types';
+import { groupCollection } from './groupUtils';
+import { setJobsApplied } from './userUtils';
+import { fromBoardTime, getDailyPeriodKey } from './dateUtils';
+import { findMatchingJobs, normalizeJobUrl } from './duplicateUtils';
+import { getInitialStatus, getPipeline, jobCreateWrites } from './jobUtils';
+
+// Columns of an exported file; importing it back maps them automatically. Notes are
+// private to each job's owner, so exports leave them out.
+const EXPORT_COLUMNS = ['username', 'title', 'company', 'url', 'status', 'createdAt', 'assessmentDeadline', 'followUpOn'] as const;
+
+// Header names (lowercased, without spaces or punctuation) recognized for each field
+const FIELD_ALIASES: Record<JobImportField, string[]> = {
+    username: ['username', 'user', 'member', 'leetcode', 'leetcodeusername'],
+    title: ['title', 'jobtitle', 'position', 'role'],
+    company: ['company', 'companyname', 'employer', 'organization'],
+    url: ['url', 'link', 'joburl', 'joblink', 'posting'],
+    status: ['status', 'stage'],
+    createdAt: ['createdat', 'date', 'dateapplied', 'applied', 'appliedon', 'added'],
+    notes: ['notes', 'note', 'comments'],
+    assessmentDeadline: ['assessmentdeadline', 'assessment', 'assessmentdue', 'deadline'],
+    followUpOn: ['followupon', 'followup', 'followupdate'],
+};
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields may hold commas, quotes and newlines)
+ * into rows of cells. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    // Spreadsheet exports often start with a byte order mark
+    const input = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    row.push(cell);
+    rows.push(row);
+
+    return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+const escapeCell = (value: string): string => {
+    // A leading =, +, - or @ would run as a formula when the file is opened in a spreadsheet
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const buildJobsCsv = (jobs: Job[]): string => {
+    const lines = [
+        EXPORT_COLUMNS.join(','),
+        ...jobs.map(job => EXPORT_COLUMNS.map(column => escapeCell(job[column] ?? '')).join(',')),
+    ];
+    return lines.join('\r\n') + '\r\n';
+};
+
+// Saves the jobs through the browser's download prompt
+export const downloadJobsCsv = (jobs: Job[], fileName: string): void => {
+    const blob = new Blob([buildJobsCsv(jobs)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Maps each field to the first header that looks like it, e.g. "Date Applied" -> createdAt.
+ */
+export const guessImportMapping = (headers: string[]): JobImportMapping => {
+    const keys = headers.map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    const mapping: JobImportMapping = {};
+    (Object.keys(FIELD_ALIASES) as JobImportField[]).forEach(field => {
+        const index = keys.findIndex(key => FIELD_ALIASES[field].includes(key));
+        if (index !== -1) mapping[field] = index;
+    });
+    return mapping;
+};
+
+// True for a "yyyy-MM-dd" day that exists, not one like 2026-02-30 that Date rolls over into March
+const isCalendarDay = (day: string): boolean => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return false;
+    const date = fromBoardTime(`${day}T00:00`);
+    return !isNaN(date.getTime()) && getDailyPeriodKey(date) === day;
+};
+
+/**
+ * Reads a spreadsheet date: an ISO timestamp (as exported), a "yyyy-MM-dd" day or a
+ * US "M/D/YYYY" day. Days are taken as midnight in Los Angeles. Null when unreadable.
+ */
+const parseImportDate = (value: string): string | null => {
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    let day = value.match(/^\d{4}-\d{2}-\d{2}$/) ? value : null;
+    const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (us) day = `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+    return day && isCalendarDay(day) ? fromBoardTime(`${day}T00:00`).toISOString() : null;
+};
+
+/**
+ * Turns the data rows of a CSV file into jobs ready to be added, or the reasons they can't be.
+ * Rows without a username go to `defaultUsername`; rows without a status start in the first
+ * stage; statuses must name a pipeline stage (case doesn't matter). Rows for users the
+ * importer can't manage, and jobs the user already has, are flagged.
+ */
+export const prepareJobImport = (
+    rows: string[][],
+    mapping: JobImportMapping,
+    options: {
+        users: FirestoreUser[];
+        existingJobs: Job[];
+        canImportFor: (username: string) => boolean;
+        defaultUsername?: string;
+        pipeline?: JobPipeline;
+    }
+): JobImportRow[] => {
+    const pipeline = options.pipeline ?? getPipeline();
+    const tracked = new Set(options.users.map(user => user.username));
+    const now = new Date().toISOString();
+    const accepted: Job[] = [];
+
+    return rows.map((cells, index) => {
+        const cell = (field: JobImportField) => {
+            const column = mapping[field];
+            // Undoes the formula guard added on export
+            return column === undefined ? '' : (cells[column] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+        };
+        const errors: string[] = [];
+
+        const username = cell('username') || options.defaultUsername || '';
+        if (!username) errors.push('No username');
+        else if (!tracked.has(username)) errors.push(`Unknown user "${username}"`);
+        else if (!options.canImportFor(username)) errors.push(`You can't add jobs for ${username}`);
+
+        const title = cell('title');
+        const company = cell('company');
+        if (!title) errors.push('No title');
+        if (!company) errors.push('No company');
+
+        const rawStatus = cell('status');
+        const stage = rawStatus
+            ? pipeline.stages.find(s => s.name.toLowerCase() === rawStatus.toLowerCase())
+            : undefined;
+        if (rawStatus && !stage) errors.push(`Unknown status "${rawStatus}"`);
+
+        const rawDate = cell('createdAt');
+        const createdAt = rawDate ? parseImportDate(rawDate) : now;
+        if (!createdAt) errors.push(`Unreadable date "${rawDate}"`);
+
+        // Stored as days, like the job details form sets them
+        const assessmentDeadline = cell('assessmentDeadline');
+        const followUpOn = cell('followUpOn');
+        if (assessmentDeadline && !isCalendarDay(assessmentDeadline)) errors.push(`Assessment deadline "${assessmentDeadline}" is not a yyyy-MM-dd day`);
+        if (followUpOn && !isCalendarDay(followUpOn)) errors.push(`Follow-up "${followUpOn}" is not a yyyy-MM-dd day`);
+
+        if (errors.length > 0) return { line: index + 2, errors };
+
+        const status = stage?.name ?? getInitialStatus(pipeline);
+        const notes = cell('notes');
+        const job: Omit<Job, 'id'> = {
+            username,
+            title,
+            company,
+            url: cell('url') ? normalizeJobUrl(cell('url')) : '',
+            status,
+            // Only the current status is known, so it's dated to when the job was added
+            statusHistory: [{ status, changedAt: createdAt! }],
+            createdAt: createdAt!,
+            ...(notes ? { notes } : {}),
+            ...(assessmentDeadline ? { assessmentDeadline } : {}),
+            ...(followUpOn ? { followUpOn } : {}),
+        };
+
+        // Checked against earlier rows of the file too, so a file with repeated rows is caught
+        const duplicate = findMatchingJobs(job, [...options.existingJobs, ...accepted])
+            .some(match => match.job.username === username);
+        accepted.push(job);
+        return { line: index + 2, job, errors, duplicate };
+    });
+};
+
+/**
+ * Adds the jobs to the active group, each in its own batch with its private details,
+ * so every job either gets in whole or not at all. Returns why jobs failed, by their
+ * index in `jobs`; all others were added.
+ * Then recounts `jobsApplied` for every user who got new jobs. Counting from the jobs
+ * themselves keeps a partly failed import, or a retried one, from leaving the counts off.
+ */
+export const importJobs = async (jobs: Omit<Job, 'id'>[], users: FirestoreUser[]): Promise<Map<number, string>> => {
+    const jobsRef = groupCollection('jobs');
+    const results = await Promise.allSettled(jobs.map(job => {
+        const batch = writeBatch(db);
+        // A fresh reference gets a random ID like addDoc would, inside the batch
+        jobCreateWrites(doc(jobsRef), job).forEach(write => write(batch));
+        return batch.commit();
+    }));
+
+    const failures = new Map<number, string>();
+    results.forEach((result, index) => {
+        if (result.status === 'rejected') failures.set(index, result.reason instanceof Error ? result.reason.message : String(result.reason));
+    });
+
+    try {
+        const usernames = new Set(jobs.filter((_, index) => !failures.has(index)).map(job => job.username));
+        await Promise.all(users.filter(user => user.id && usernames.has(user.username)).map(async user => {
+            const userJobs = await getDocs(query(jobsRef, where('username', '==', user.username)));
+            await setJobsApplied(user.id!, userJobs.size);
+        }));
+    } catch (error) {
+        // The next visit's job count sync recounts them
+        console.error('Error recounting jobs after import:', error);
+    }
+    console.log(`📥 Imported ${jobs.length - failures.size} job(s)${failures.size > 0 ? `, ${failures.size} failed` : ''}`);
+    return failures;
+};
@@ -1,5 +1,5 @@
-import { toZonedTime, format } from 'date-fns-tz';
-import { startOfISOWeek, startOfMonth, startOfYear, addWeeks, addMonths, addYears } from 'date-fns';
+import { toZonedTime, fromZonedTime, format } from 'date-fns-tz';
+import { startOfISOWeek, startOfMonth, startOfYear, addDays, addWeeks, addMonths, addYears, parse } from 'date-fns';
 
 const TIMEZONE = 'America/Los_Angeles';
 
@@ -8,6 +8,26 @@ export const getNow = (): Date => {
   return toZonedTime(new Date(), TIMEZONE);
 };
 
+// Convert an absolute instant (e.g. a stored ISO timestamp) to the board's timezone
+export const toZonedDate = (date: Date | string): Date => {
+  return toZonedTime(typeof date === 'string' ? new Date(date) : date, TIMEZONE);
+};
+
+// Instant of a wall-clock time on the board, e.g. an interview at "2026-01-15T14:00" in Los Angeles
+export const fromBoardTime = (localDateTime: string): Date => {
+  return fromZonedTime(localDateTime, TIMEZONE);
+};
+
+// Daily: "2026-01-15"
+export const getDailyPeriodKey = (date: Date = getNow()): string => {
+  return format(date, 'yyyy-MM-dd', { timeZone: TIMEZONE });
+};
+
+// Day key a number of days later: ("2026-01-30", 3) -> "2026-02-02"
+export const addDaysToDayKey = (dayKey: string, days: number): string => {
+  return format(addDays(parse(dayKey, 'yyyy-MM-dd', new Date()), days), 'yyyy-MM-dd');
+};
+
 // Weekly: "2026-W01"
 export const getWeeklyPeriodKey = (date: Date = getNow()): string => {
   // Use 'I' for ISO week year and 'R' for ISO week number
@@ -24,6 +44,31 @@ export const getYearlyPeriodKey = (date: Date = getNow()): string => {
   return format(date, 'yyyy', { timeZone: TIMEZONE });
 };
 
+// Exact instant the current period began: midnight in Los Angeles on the first day
+export const getPeriodStartInstant = (period: 'weekly' | 'monthly' | 'yearly', date: Date = getNow()): Date => {
+  const wallClockStart = period === 'weekly'
+    ? startOfISOWeek(date)
+    : period === 'monthly'
+      ? startOfMonth(date)
+      : startOfYear(date);
+  return fromZonedTime(wallClockStart, TIMEZONE);
+};
+
+// First day of the current period: "2026-01-12"
+export const getPeriodStartDayKey = (period: 'weekly' | 'monthly' | 'yearly', date: Date = getNow()): string => {
+  return getDailyPeriodKey(toZonedDate(getPeriodStartInstant(period, date)));
+};
+
+// Period key of the period right after the given one, e.g. "2026-W52" -> "2027-W01"
+export const getNextPeriodKey = (period: 'weekly' | 'monthly' | 'yearly', periodKey: string): string => {
+  if (period === 'weekly') {
+    return getWeeklyPeriodKey(addWeeks(parse(periodKey, "RRRR-'W'II", new Date()), 1));
+  } else if (period === 'monthly') {
+    return getMonthlyPeriodKey(addMonths(parse(periodKey, 'yyyy-MM', new Date()), 1));
+  }
+  return getYearlyPeriodKey(addYears(parse(periodKey, 'yyyy', new Date()), 1));
+};
+
 // Calculate milliseconds until the next period reset
 export const getTimeUntilNextReset = (period: 'weekly' | 'monthly' | 'yearly'): number => {
   const now = getNow();
@@ -0,0 +1,123 @@
+import { Job, JobMatch } from '../types';
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+    'gclid', 'fbclid', 'msclkid', 'ref', 'refid', 'referrer', 'source', 'src', 'trk', 'trackingid',
+    'gh_src', 'lever-source', 'lever-origin',
+]);
+
+// Company name endings that don't tell companies apart
+const COMPANY_SUFFIXES = new Set(['inc', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'gmbh', 'plc', 'ag', 'sa']);
+
+// Dice similarity from which two companies or titles count as the same
+const COMPANY_THRESHOLD = 0.85;
+const TITLE_THRESHOLD = 0.8;
+
+const isTrackingParam = (name: string): boolean => {
+    const lower = name.toLowerCase();
+    return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+};
+
+/**
+ * Rewrites job board URLs to one canonical form per posting, e.g.
+ * linkedin.com/jobs/view/some-title-123?trk=… and linkedin.com/jobs/search?currentJobId=123
+ * both become linkedin.com/jobs/view/123.
+ */
+const canonicalizeJobBoard = (url: URL): void => {
+    const host = url.hostname;
+    if (host.endsWith('linkedin.com')) {
+        url.hostname = 'www.linkedin.com';
+        const jobId = url.searchParams.get('currentJobId') ?? url.pathname.match(/\/jobs\/view\/(?:[^/]*-)?(\d+)/)?.[1];
+        if (jobId) {
+            url.pathname = `/jobs/view/${jobId}`;
+            url.search = '';
+        }
+    } else if (host === 'job-boards.greenhouse.io' || host === 'boards.greenhouse.io') {
+        url.hostname = 'boards.greenhouse.io';
+    } else if (host === 'jobs.lever.co' || host === 'jobs.ashbyhq.com') {
+        // The application form sits under the posting
+        url.pathname = url.pathname.replace(/\/(apply|application)\/?$/, '');
+    } else if (host.endsWith('.myworkdayjobs.com')) {
+        // Locale segments (e.g. /en-US/) point at the same posting
+        url.pathname = url.pathname.replace(/^\/[a-z]{2}-[A-Z]{2}(?=\/)/, '');
+    } else if (host.endsWith('indeed.com')) {
+        const jobKey = url.searchParams.get('jk') ?? url.searchParams.get('vjk');
+        if (jobKey) {
+            url.pathname = '/viewjob';
+            url.search = `?jk=${jobKey}`;
+        }
+    }
+};
+
+/**
+ * The URL with tracking parameters, fragments and trailing slashes removed and
+ * job board hosts canonicalized. Unparseable input is returned trimmed.
+ */
+export const normalizeJobUrl = (rawUrl: string): string => {
+    const trimmed = rawUrl.trim();
+    let url: URL;
+    try {
+        url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    } catch {
+        return trimmed;
+    }
+
+    url.protocol = 'https:';
+    url.hash = '';
+    [...url.searchParams.keys()].filter(isTrackingParam).forEach(name => url.searchParams.delete(name));
+    url.searchParams.sort();
+    canonicalizeJobBoard(url);
+    url.pathname = url.pathname.replace(/\/+$/, '') || '/';
+
+    return url.toString().replace(/\/(?=\?|$)/, '');
+};
+
+// Lowercase words without punctuation, e.g. "Sr. Software Engineer (Backend)" -> "sr software engineer backend"
+const normalizeText = (text: string): string => {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+};
+
+const normalizeCompany = (company: string): string => {
+    return normalizeText(company).split(' ').filter(word => !COMPANY_SUFFIXES.has(word)).join(' ');
+};
+
+// Sørensen–Dice coefficient over character bigrams: 1 for equal strings, 0 for nothing in common
+const similarity = (a: string, b: string): number => {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+    const bigrams = (text: string) => {
+        const counts = new Map<string, number>();
+        for (let i = 0; i < text.length - 1; i++) {
+            const bigram = text.slice(i, i + 2);
+            counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+        }
+        return counts;
+    };
+    const aBigrams = bigrams(a);
+    const bBigrams = bigrams(b);
+    let shared = 0;
+    aBigrams.forEach((count, bigram) => { shared += Math.min(count, bBigrams.get(bigram) ?? 0); });
+    return (2 * shared) / (a.length - 1 + b.length - 1);
+};
+
+// Comparison key: www. is optional on most career sites
+const urlKey = (url: string): string => normalizeJobUrl(url).replace(/^https:\/\/www\./, 'https://');
+
+/**
+ * Jobs that look like the same posting as the candidate: the same normalized URL,
+ * or a matching company with a near-identical title.
+ */
+export const findMatchingJobs = (candidate: Pick<Job, 'url' | 'title' | 'company'>, jobs: Job[]): JobMatch[] => {
+    const url = candidate.url.trim() ? urlKey(candidate.url) : '';
+    const company = normalizeCompany(candidate.company);
+    const title = normalizeText(candidate.title);
+
+    return jobs.flatMap((job): JobMatch[] => {
+        if (url && urlKey(job.url) === url) return [{ job, reason: 'url' }];
+        if (!company || !title) return [];
+        const sameCompany = similarity(company, normalizeCompany(job.company)) >= COMPANY_THRESHOLD;
+        return sameCompany && similarity(title, normalizeText(job.title)) >= TITLE_THRESHOLD
+            ? [{ job, reason: 'similar' }]
+            : [];
+    });
+};
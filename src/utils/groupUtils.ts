@@ -0,0 +1,224 @@
+import { db } from '../firebase';
+import {
+    arrayUnion,
+    collection,
+    deleteField,
+    doc,
+    getDoc,
+    getDocs,
+    query,
+    where,
+    writeBatch,
+    CollectionReference,
+    DocumentReference
+} from 'firebase/firestore';
+import { Account, Group, GroupMember } from '../types';
+import { isApproved, refreshAccount } from './authUtils';
+
+const GROUPS_COLLECTION = 'groups';
+// Invite code -> group, readable one code at a time so codes can't be listed
+const INVITES_COLLECTION = 'groupInvites';
+const MEMBERS_COLLECTION = 'members';
+// groups/{groupId}/private/invite holds the group's invite code, readable by its admins only
+const PRIVATE_COLLECTION = 'private';
+const INVITE_DOC_ID = 'invite';
+
+// The original board. Its data stays in the top-level collections.
+export const DEFAULT_GROUP_ID = 'default';
+export const DEFAULT_GROUP: Group = { id: DEFAULT_GROUP_ID, name: 'LeetBoard' };
+
+// Collections every group has its own copy of
+export type GroupCollectionName = 'users' | 'jobs' | 'leaderboardSnapshots' | 'statHistory' | 'settings';
+
+let activeGroupId = DEFAULT_GROUP_ID;
+
+export const getActiveGroupId = (): string => activeGroupId;
+
+/**
+ * Switches the group every read and write goes to. Callers reload their data afterwards.
+ */
+export const setActiveGroupId = (groupId: string): void => {
+    activeGroupId = groupId;
+};
+
+/**
+ * A collection of the active group: top-level for the default group,
+ * groups/{groupId}/{name} for every other one.
+ */
+export const groupCollection = (name: GroupCollectionName): CollectionReference => {
+    return activeGroupId === DEFAULT_GROUP_ID
+        ? collection(db, name)
+        : collection(db, GROUPS_COLLECTION, activeGroupId, name);
+};
+
+export const groupDoc = (name: GroupCollectionName, id: string): DocumentReference => doc(groupCollection(name), id);
+
+export const loadGroup = async (groupId: string): Promise<Group | null> => {
+    if (groupId === DEFAULT_GROUP_ID) return DEFAULT_GROUP;
+    try {
+        const groupDoc = await getDoc(doc(db, GROUPS_COLLECTION, groupId));
+        if (!groupDoc.exists()) return null;
+        return { id: groupDoc.id, ...(groupDoc.data() as Omit<Group, 'id'>) };
+    } catch (error) {
+        console.error(`Error loading group ${groupId}:`, error);
+        return null;
+    }
+};
+
+// The default group plus every group the account joined
+export const loadAccountGroups = async (account: Account | null): Promise<Group[]> => {
+    const groups = await Promise.all((account?.groupIds ?? []).map(loadGroup));
+    return [DEFAULT_GROUP, ...groups.filter((g): g is Group => g !== null)];
+};
+
+/**
+ * The account's permissions in a group. The default group uses the account's own role,
+ * once an admin approved the link; other groups have a members/{uid} document written
+ * when joining.
+ */
+export const loadMembership = async (groupId: string, account: Account | null): Promise<GroupMember | null> => {
+    if (!account) return null;
+    if (groupId === DEFAULT_GROUP_ID) return isApproved(account) ? account : null;
+    try {
+        const memberDoc = await getDoc(doc(db, GROUPS_COLLECTION, groupId, MEMBERS_COLLECTION, account.uid));
+        if (!memberDoc.exists()) return null;
+        const { username, role } = memberDoc.data() as GroupMember;
+        return { uid: account.uid, username, role };
+    } catch (error) {
+        console.error(`Error loading membership in ${groupId}:`, error);
+        return null;
+    }
+};
+
+const generateInviteCode = (): string => {
+    // No 0/O or 1/I, so codes survive being read out loud. 32 letters divide 256
+    // evenly, so every letter is equally likely.
+    const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    return Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => alphabet[byte % alphabet.length]).join('');
+};
+
+/**
+ * The group's invite code, for its admins. Groups created before codes were kept
+ * private have theirs on the public group document; it's moved on first load.
+ */
+export const loadInviteCode = async (groupId: string): Promise<string | null> => {
+    if (groupId === DEFAULT_GROUP_ID) return null;
+    try {
+        const groupRef = doc(db, GROUPS_COLLECTION, groupId);
+        const inviteRef = doc(groupRef, PRIVATE_COLLECTION, INVITE_DOC_ID);
+        const invite = await getDoc(inviteRef);
+        if (invite.exists()) return (invite.data() as { code: string }).code;
+
+        const legacyCode = (await getDoc(groupRef)).data()?.inviteCode as string | undefined;
+        if (!legacyCode) return null;
+        const batch = writeBatch(db);
+        batch.set(inviteRef, { code: legacyCode });
+        batch.update(groupRef, { inviteCode: deleteField() });
+        await batch.commit();
+        return legacyCode;
+    } catch (error) {
+        console.error(`Error loading invite code of ${groupId}:`, error);
+        return null;
+    }
+};
+
+/**
+ * Creates a group with the account as its admin and first tracked user.
+ */
+export const createGroup = async (name: string, account: Account, displayName: string): Promise<Group> => {
+    const groupRef = doc(collection(db, GROUPS_COLLECTION));
+    const now = new Date().toISOString();
+    const group: Group = {
+        id: groupRef.id,
+        name,
+        createdAt: now,
+        createdBy: account.uid,
+    };
+    const { id: _id, ...groupData } = group;
+    const inviteCode = generateInviteCode();
+
+    const batch = writeBatch(db);
+    batch.set(groupRef, groupData);
+    batch.set(doc(groupRef, PRIVATE_COLLECTION, INVITE_DOC_ID), { code: inviteCode });
+    batch.set(doc(db, INVITES_COLLECTION, inviteCode), { groupId: group.id });
+    batch.set(doc(groupRef, MEMBERS_COLLECTION, account.uid), { username: account.username, role: 'admin', joinedAt: now });
+    batch.set(doc(collection(groupRef, 'users')), { username: account.username, name: displayName, jobsApplied: 0, createdAt: now });
+    batch.update(doc(db, 'accounts', account.uid), { groupIds: arrayUnion(group.id) });
+    await batch.commit();
+
+    console.log(`👥 Created group ${name} (${group.id})`);
+    await refreshAccount();
+    return group;
+};
+
+/**
+ * Joins the group behind an invite code as a member. The account's username is added
+ * to the group's users (with its own job count) unless the group already tracks it.
+ */
+export const joinGroup = async (inviteCode: string, account: Account, displayName: string): Promise<Group> => {
+    const code = inviteCode.trim().toUpperCase();
+    const invite = await getDoc(doc(db, INVITES_COLLECTION, code));
+    if (!invite.exists()) throw new Error('Invalid invite code.');
+
+    const { groupId } = invite.data() as { groupId: string };
+    const group = await loadGroup(groupId);
+    if (!group) throw new Error('This group no longer exists.');
+
+    const groupRef = doc(db, GROUPS_COLLECTION, groupId);
+    const memberRef = doc(groupRef, MEMBERS_COLLECTION, account.uid);
+    const batch = writeBatch(db);
+
+    if (!(await getDoc(memberRef)).exists()) {
+        // The invite code is stored so the rules can check it; only the member and admins can read it
+        batch.set(memberRef, { username: account.username, role: 'member', joinedAt: new Date().toISOString(), inviteCode: code });
+    }
+
+    const tracked = await getDocs(query(collection(groupRef, 'users'), where('username', '==', account.username)));
+    if (tracked.empty) {
+        batch.set(doc(collection(groupRef, 'users')), {
+            username: account.username,
+            name: displayName,
+            jobsApplied: 0,
+            createdAt: new Date().toISOString(),
+        });
+    }
+
+    batch.update(doc(db, 'accounts', account.uid), { groupIds: arrayUnion(groupId) });
+    await batch.commit();
+
+    console.log(`👥 Joined group ${group.name} (${groupId})`);
+    await refreshAccount();
+    return group;
+};
+
+/**
+ * Removes the membership of a deleted LeetCode username from a (non-default) group,
+ * so the sign-in behind it can't write there anymore. Admin only.
+ */
+export const removeGroupMember = async (groupId: string, username: string): Promise<void> => {
+    const memberDocs = await getDocs(query(
+        collection(db, GROUPS_COLLECTION, groupId, MEMBERS_COLLECTION),
+        where('username', '==', username)
+    ));
+    if (memberDocs.empty) return;
+
+    const batch = writeBatch(db);
+    memberDocs.docs.forEach(memberDoc => batch.delete(memberDoc.ref));
+    await batch.commit();
+};
+
+/**
+ * Points the membership of a renamed LeetCode username in a (non-default) group
+ * at the new username. Admin only.
+ */
+export const renameGroupMember = async (groupId: string, oldUsername: string, newUsername: string): Promise<void> => {
+    const memberDocs = await getDocs(query(
+        collection(db, GROUPS_COLLECTION, groupId, MEMBERS_COLLECTION),
+        where('username', '==', oldUsername)
+    ));
+    if (memberDocs.empty) return;
+
+    const batch = writeBatch(db);
+    memberDocs.docs.forEach(memberDoc => batch.update(memberDoc.ref, { username: newUsername }));
+    await batch.commit();
+};
@@ -0,0 +1,85 @@
+import { db } from '../firebase';
+import {
+    doc,
+    getDocs,
+    query,
+    where,
+    writeBatch
+} from 'firebase/firestore';
+import {
+    GroupMember,
+    UserStats,
+    StatHistorySample
+} from '../types';
+import { getDailyPeriodKey } from './dateUtils';
+import { groupCollection } from './groupUtils';
+import { isAdmin } from './authUtils';
+
+// Deterministic document ID so concurrent browsers write the same sample
+const getSampleId = (username: string, date: string): string => `${username}_${date}`;
+
+/**
+ * Records today's sample for every user that doesn't have one yet: everyone's for
+ * admins, only their own for members (the rules reject the rest).
+ * Users whose fetch failed are skipped so a zeroed row never lands in history.
+ * IDEMPOTENCY: samples are keyed by username and day, so re-running is harmless.
+ */
+export const recordDailySamples = async (currentStats: UserStats[], member: GroupMember): Promise<void> => {
+    try {
+        const date = getDailyPeriodKey();
+        const historyRef = groupCollection('statHistory');
+
+        const existingDocs = await getDocs(query(historyRef, where('date', '==', date)));
+        const sampled = new Set(existingDocs.docs.map(d => (d.data() as StatHistorySample).username));
+
+        const missing = currentStats.filter(user => !user.error && !sampled.has(user.username)
+            && (isAdmin(member) || member.username === user.username));
+        if (missing.length === 0) return;
+
+        console.log(`🗓️ Recording ${missing.length} stat history samples for ${date}`);
+
+        const sampledAt = new Date().toISOString();
+        const batch = writeBatch(db);
+        missing.forEach(user => {
+            const sample: Omit<StatHistorySample, 'id'> = {
+                date,
+                sampledAt,
+                username: user.username,
+                name: user.name,
+                jobsApplied: user.jobsApplied,
+                easy: user.easy,
+                medium: user.medium,
+                hard: user.hard,
+                total: user.total,
+                xp: user.xp
+            };
+            batch.set(doc(historyRef, getSampleId(user.username, date)), sample);
+        });
+        await batch.commit();
+
+    } catch (error) {
+        console.error('Error recording stat history:', error);
+    }
+};
+
+/**
+ * Loads all samples between two day keys (inclusive), e.g. '2026-01-01' to '2026-01-14'.
+ * Results are sorted by date, oldest first.
+ */
+export const loadStatHistory = async (startDate: string, endDate: string): Promise<StatHistorySample[]> => {
+    try {
+        const q = query(
+            groupCollection('statHistory'),
+            where('date', '>=', startDate),
+            where('date', '<=', endDate)
+        );
+        const historyDocs = await getDocs(q);
+        return historyDocs.docs
+            .map(d => ({ id: d.id, ...d.data() } as StatHistorySample))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+        console.error(`Error loading stat history ${startDate}..${endDate}:`, error);
+        return [];
+    }
+};
+
@@ -0,0 +1,79 @@
+import {
+    LeaderboardSnapshot,
+    SnapshotIntegrityIssue,
+    SnapshotUserStats,
+    UserStats
+} from '../types';
+
+interface BaselineEntry {
+    at: string;
+    stats: SnapshotUserStats;
+    snapshot: LeaderboardSnapshot | null; // null for live stats
+}
+
+const solvedTotal = (stats: SnapshotUserStats): number => stats.easy + stats.medium + stats.hard;
+
+/**
+ * Flags baselines that can't be right. Solved counts only grow, so each user's
+ * baselines across all snapshots (plus their live stats) should never go down.
+ * - zeroed: all-zero solved counts while an earlier or later baseline (or the
+ *   live count) isn't, the signature of a failed fetch saved as a baseline
+ * - decreasing: higher than a later, non-zero baseline or the live count
+ * - inconsistent-total: total doesn't match easy + medium + hard
+ */
+export const checkSnapshotIntegrity = (
+    snapshots: LeaderboardSnapshot[],
+    liveStats: UserStats[]
+): SnapshotIntegrityIssue[] => {
+    const timelines = new Map<string, BaselineEntry[]>();
+    const addEntry = (entry: BaselineEntry) => {
+        timelines.set(entry.stats.username, [...(timelines.get(entry.stats.username) ?? []), entry]);
+    };
+
+    snapshots.forEach(snapshot => snapshot.users.forEach(stats => addEntry({ at: snapshot.createdAt, stats, snapshot })));
+    liveStats
+        .filter(user => !user.error)
+        .forEach(user => addEntry({ at: user.updatedAt ?? new Date().toISOString(), stats: user, snapshot: null }));
+
+    const issues: SnapshotIntegrityIssue[] = [];
+
+    timelines.forEach((entries, username) => {
+        const ordered = [...entries].sort((a, b) => a.at.localeCompare(b.at));
+
+        ordered.forEach((entry, i) => {
+            const { snapshot, stats } = entry;
+            if (!snapshot) return;
+
+            const flag = (issue: SnapshotIntegrityIssue['issue'], detail: string) => issues.push({
+                snapshotId: snapshot.id,
+                period: snapshot.period,
+                periodKey: snapshot.periodKey,
+                username,
+                issue,
+                detail,
+            });
+
+            if (solvedTotal(stats) === 0) {
+                const earlierNonZero = ordered.slice(0, i).reverse().find(e => solvedTotal(e.stats) > 0);
+                const laterNonZero = ordered.slice(i + 1).find(e => solvedTotal(e.stats) > 0);
+                if (earlierNonZero) {
+                    flag('zeroed', `all zeros after ${solvedTotal(earlierNonZero.stats)} solved on ${earlierNonZero.at.slice(0, 10)}`);
+                } else if (laterNonZero) {
+                    flag('zeroed', `all zeros, but ${solvedTotal(laterNonZero.stats)} solved on ${laterNonZero.at.slice(0, 10)}`);
+                }
+                return;
+            }
+
+            const laterLower = ordered.slice(i + 1).find(e => solvedTotal(e.stats) > 0 && solvedTotal(e.stats) < solvedTotal(stats));
+            if (laterLower) {
+                flag('decreasing', `${solvedTotal(stats)} solved, but only ${solvedTotal(laterLower.stats)} on ${laterLower.at.slice(0, 10)}`);
+            }
+
+            if (stats.total !== solvedTotal(stats)) {
+                flag('inconsistent-total', `total ${stats.total} ≠ ${stats.easy} + ${stats.medium} + ${stats.hard}`);
+            }
+        });
+    });
+
+    return issues;
+};
@@ -0,0 +1,266 @@
+import { db } from '../firebase';
+import { deleteField, doc, getDoc, getDocs, setDoc, writeBatch, DocumentReference, WriteBatch } from 'firebase/firestore';
+import { Job, JobDetails, JobPipeline, JobPrivateDetails, JobReminder, JobsQuery, JobStatus, JobStatusChange, PipelineStage, StageColor } from '../types';
+import { groupCollection, groupDoc } from './groupUtils';
+import { addDaysToDayKey, getDailyPeriodKey, toZonedDate } from './dateUtils';
+
+// settings/pipeline (per group) holds the stages jobs move through
+const PIPELINE_DOC_ID = 'pipeline';
+
+// Job documents are public, so notes and contacts live in jobs/{jobId}/private/details,
+// which only the job's owner and admins can read
+const PRIVATE_COLLECTION = 'private';
+const DETAILS_DOC_ID = 'details';
+const PRIVATE_FIELDS = ['notes', 'contacts'] as const;
+
+// Deadlines and interviews this many days ahead are flagged on the jobs tab
+export const UPCOMING_REMINDER_DAYS = 3;
+
+export const JOBS_PAGE_SIZE = 25;
+
+// The original four stages plus the ways an application can end
+export const DEFAULT_PIPELINE: JobPipeline = {
+    stages: [
+        { name: 'Applied', color: 'blue' },
+        { name: 'Assessment', color: 'green' },
+        { name: 'Interview', color: 'orange' },
+        { name: 'Offer', color: 'yellow' },
+        { name: 'Rejected', color: 'red', terminal: true },
+        { name: 'Withdrawn', color: 'gray', terminal: true },
+        { name: 'Ghosted', color: 'purple', terminal: true },
+    ],
+};
+
+// Full class names so Tailwind keeps them in the build
+export const STAGE_COLORS: Record<StageColor, { badge: string; text: string }> = {
+    blue: { badge: 'bg-blue-500 hover:bg-blue-400 text-white', text: 'text-blue-400' },
+    green: { badge: 'bg-green-500 hover:bg-green-400 text-white', text: 'text-green-400' },
+    orange: { badge: 'bg-orange-600 hover:bg-orange-500 text-white', text: 'text-orange-400' },
+    yellow: { badge: 'bg-yellow-500 hover:bg-yellow-600 text-white', text: 'text-yellow-400' },
+    red: { badge: 'bg-red-600 hover:bg-red-500 text-white', text: 'text-red-400' },
+    purple: { badge: 'bg-purple-600 hover:bg-purple-500 text-white', text: 'text-purple-400' },
+    gray: { badge: 'bg-gray-500 hover:bg-gray-400 text-white', text: 'text-gray-400' },
+};
+
+// Pipeline every job view uses; loaded per page load and group switch
+let activePipeline: JobPipeline = DEFAULT_PIPELINE;
+
+export const getPipeline = (): JobPipeline => activePipeline;
+
+/**
+ * Loads the active group's pipeline, falling back to the default stages
+ * when the settings document doesn't exist yet.
+ */
+export const loadPipeline = async (): Promise<JobPipeline> => {
+    try {
+        const pipelineDoc = await getDoc(groupDoc('settings', PIPELINE_DOC_ID));
+        activePipeline = pipelineDoc.exists() ? pipelineDoc.data() as JobPipeline : DEFAULT_PIPELINE;
+    } catch (error) {
+        console.error('Error loading job pipeline:', error);
+    }
+    return activePipeline;
+};
+
+/**
+ * Saves the stages as the active group's pipeline. Jobs keep their status as is,
+ * so renaming a stage leaves existing jobs on the old name until they're moved.
+ */
+export const savePipeline = async (stages: PipelineStage[]): Promise<JobPipeline> => {
+    const pipeline: JobPipeline = { stages, updatedAt: new Date().toISOString() };
+    await setDoc(groupDoc('settings', PIPELINE_DOC_ID), pipeline);
+    activePipeline = pipeline;
+    return activePipeline;
+};
+
+// Stage of a status; undefined when the stage was removed from the pipeline since
+export const getStage = (status: JobStatus, pipeline: JobPipeline = activePipeline): PipelineStage | undefined => {
+    return pipeline.stages.find(stage => stage.name === status);
+};
+
+// New jobs start in the first stage that doesn't end the application
+export const getInitialStatus = (pipeline: JobPipeline = activePipeline): JobStatus => {
+    return (pipeline.stages.find(stage => !stage.terminal) ?? pipeline.stages[0] ?? DEFAULT_PIPELINE.stages[0]).name;
+};
+
+export const isTerminalStatus = (status: JobStatus, pipeline: JobPipeline = activePipeline): boolean => {
+    return getStage(status, pipeline)?.terminal === true;
+};
+
+export const getStageColor = (status: JobStatus, pipeline: JobPipeline = activePipeline): StageColor => {
+    return getStage(status, pipeline)?.color ?? 'gray';
+};
+
+/**
+ * The job's status changes, oldest first. Jobs from before history was kept
+ * only know their current status, so it's dated to when the job was added.
+ */
+export const getStatusHistory = (job: Job): JobStatusChange[] => {
+    return job.statusHistory ?? [{ status: job.status, changedAt: job.createdAt }];
+};
+
+/**
+ * Loads every job of the active group, most recently added first.
+ */
+export const loadJobs = async (): Promise<Job[]> => {
+    try {
+        const snapshot = await getDocs(groupCollection('jobs'));
+        const jobs: Job[] = snapshot.docs.map(d => ({ id: d.id, ...(d.data() as Omit<Job, 'id'>) }));
+        // Jobs without createdAt count as oldest
+        return jobs.sort((a, b) =>
+            (b.createdAt ? new Date(b.createdAt).getTime() : 0) - (a.createdAt ? new Date(a.createdAt).getTime() : 0));
+    } catch (error) {
+        console.error('Error loading jobs:', error);
+        return [];
+    }
+};
+
+export const jobDetailsDoc = (jobId: string): DocumentReference =>
+    doc(groupDoc('jobs', jobId), PRIVATE_COLLECTION, DETAILS_DOC_ID);
+
+// What the job's own document holds, and the notes and contacts that go in its private details
+export const splitPrivateDetails = <T extends JobPrivateDetails>(job: T): { publicFields: Omit<T, keyof JobPrivateDetails>; privateDetails: JobPrivateDetails } => {
+    const { notes, contacts, ...publicFields } = job;
+    return {
+        publicFields,
+        privateDetails: { ...(notes ? { notes } : {}), ...(contacts?.length ? { contacts } : {}) },
+    };
+};
+
+const hasPrivateFields = (job: JobPrivateDetails): boolean => PRIVATE_FIELDS.some(field => job[field] !== undefined);
+
+/**
+ * Batch writes that add a job, then its private details if it has any. One write
+ * each, so they fit commitInBatches; the job comes first because the rules look
+ * up the details' owner on it.
+ */
+export const jobCreateWrites = (jobRef: DocumentReference, job: Omit<Job, 'id'>): ((batch: WriteBatch) => void)[] => {
+    const { publicFields, privateDetails } = splitPrivateDetails(job);
+    return [
+        batch => batch.set(jobRef, publicFields),
+        ...(hasPrivateFields(privateDetails) ? [(batch: WriteBatch) => batch.set(jobDetailsDoc(jobRef.id), privateDetails)] : []),
+    ];
+};
+
+// Batch writes that delete a job's private details, then the job
+export const jobDeleteWrites = (jobId: string): ((batch: WriteBatch) => void)[] => [
+    batch => batch.delete(jobDetailsDoc(jobId)),
+    batch => batch.delete(groupDoc('jobs', jobId)),
+];
+
+/**
+ * Loads a job's notes and contacts; only its owner and admins may. Jobs saved
+ * before they were private still carry them on the job itself.
+ */
+export const loadPrivateJobDetails = async (job: Job): Promise<JobPrivateDetails> => {
+    const detailsDoc = await getDoc(jobDetailsDoc(job.id!));
+    return detailsDoc.exists() ? detailsDoc.data() as JobPrivateDetails : splitPrivateDetails(job).privateDetails;
+};
+
+/**
+ * Saves a job's notes, contacts and dates: dates on the job, notes and contacts in its
+ * private details. Cleared fields are removed, and so are notes and contacts still
+ * left on the job from before they were private.
+ */
+export const saveJobDetails = async (job: Job, details: JobDetails): Promise<void> => {
+    const { publicFields, privateDetails } = splitPrivateDetails(details);
+    const update = Object.fromEntries([
+        ...Object.entries(publicFields).map(([key, value]) => {
+            const empty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+            return [key, empty ? deleteField() : value];
+        }),
+        ...PRIVATE_FIELDS.map(field => [field, deleteField()]),
+    ]);
+    const batch = writeBatch(db);
+    batch.update(groupDoc('jobs', job.id!), update);
+    batch.set(jobDetailsDoc(job.id!), privateDetails);
+    await batch.commit();
+};
+
+/**
+ * Moves notes and contacts off jobs saved before they were private, one batch per
+ * job. Returns how many jobs were moved.
+ */
+export const moveJobDetailsToPrivate = async (jobs: Job[]): Promise<number> => {
+    const legacyJobs = jobs.filter(job => job.id && hasPrivateFields(job));
+    try {
+        await Promise.all(legacyJobs.map(job => {
+            const batch = writeBatch(db);
+            batch.set(jobDetailsDoc(job.id!), splitPrivateDetails(job).privateDetails, { merge: true });
+            batch.update(groupDoc('jobs', job.id!), Object.fromEntries(PRIVATE_FIELDS.map(field => [field, deleteField()])));
+            return batch.commit();
+        }));
+    } catch (error) {
+        console.error('Error moving job notes and contacts:', error);
+        return 0;
+    }
+    if (legacyJobs.length > 0) console.log(`🔒 Moved notes and contacts of ${legacyJobs.length} job(s) to their private details`);
+    return legacyJobs.length;
+};
+
+/**
+ * Follow-ups that are due and deadlines or interviews coming up within
+ * UPCOMING_REMINDER_DAYS, soonest first. Closed applications have none.
+ */
+export const getJobReminders = (job: Job, today: string = getDailyPeriodKey()): JobReminder[] => {
+    if (isTerminalStatus(job.status)) return [];
+    const horizon = addDaysToDayKey(today, UPCOMING_REMINDER_DAYS);
+    const upcoming = (date: string) => date >= today && date <= horizon;
+    const reminders: JobReminder[] = [];
+
+    if (job.followUpOn && job.followUpOn <= today) {
+        reminders.push({ kind: 'followUp', date: job.followUpOn, overdue: job.followUpOn < today });
+    }
+    if (job.assessmentDeadline && upcoming(job.assessmentDeadline)) {
+        reminders.push({ kind: 'assessment', date: job.assessmentDeadline, overdue: false });
+    }
+    (job.interviewDates ?? [])
+        .map(interview => interview.slice(0, 10))
+        .filter(upcoming)
+        .forEach(date => reminders.push({ kind: 'interview', date, overdue: false }));
+
+    return reminders.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * When the job first reached each status. Later visits to a status (e.g. after
+ * moving the job back by mistake) don't change it.
+ */
+export const getStageReachedAt = (job: Job): Map<JobStatus, string> => {
+    const reachedAt = new Map<JobStatus, string>();
+    getStatusHistory(job).forEach(change => {
+        if (!reachedAt.has(change.status)) reachedAt.set(change.status, change.changedAt);
+    });
+    return reachedAt;
+};
+
+// Los Angeles day a job was added, "yyyy-MM-dd"
+export const getJobDayKey = (job: Job): string => job.createdAt ? getDailyPeriodKey(toZonedDate(job.createdAt)) : '';
+
+/**
+ * Applies the jobs tab's search and filters, then sorts. Dates are compared as
+ * Los Angeles days; statuses sort in pipeline order, unknown ones last.
+ */
+export const queryJobs = (jobs: Job[], query: JobsQuery = {}, pipeline: JobPipeline = activePipeline): Job[] => {
+    const search = query.search?.trim().toLowerCase();
+
+    const matching = jobs.filter(job =>
+        (!search || job.title.toLowerCase().includes(search) || job.company.toLowerCase().includes(search))
+        && (!query.statuses?.length || query.statuses.includes(job.status))
+        && (!query.from || getJobDayKey(job) >= query.from)
+        && (!query.to || getJobDayKey(job) <= query.to));
+
+    const sort = query.sort ?? 'createdAt';
+    const sign = (query.direction ?? 'desc') === 'asc' ? 1 : -1;
+    const stageIndex = (status: JobStatus) => {
+        const index = pipeline.stages.findIndex(stage => stage.name === status);
+        return index === -1 ? pipeline.stages.length : index;
+    };
+    const compare = (a: Job, b: Job): number => {
+        switch (sort) {
+            case 'status': return stageIndex(a.status) - stageIndex(b.status);
+            case 'createdAt': return (a.createdAt ?? '').localeCompare(b.createdAt ?? '');
+            default: return a[sort].localeCompare(b[sort], undefined, { sensitivity: 'base' });
+        }
+    };
+    return matching.sort((a, b) => sign * compare(a, b));
+};
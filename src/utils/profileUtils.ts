@@ -0,0 +1,82 @@
+import {
+    Job,
+    SnapshotPeriod,
+    UserPeriodRank,
+    UserProfile,
+    UserProgressPoint,
+    UserStats
+} from '../types';
+import { loadAllSnapshots } from './snapshotUtils';
+import { computePeriodStandings, getClosedPeriods } from './progressUtils';
+import { computeXp, getScoringRulesForVersion } from './scoringUtils';
+import { getDailyPeriodKey, toZonedDate } from './dateUtils';
+
+const PERIODS: SnapshotPeriod[] = ['weekly', 'monthly', 'yearly'];
+
+/**
+ * Builds a user's profile from the stored leaderboardSnapshots baselines:
+ * - progress: one point per day a baseline was captured, plus today's live stats.
+ *   XP is rescored with the active rules so a rules change doesn't show up as a jump.
+ * - periodRanks: the user's final rank in every closed period they took part in,
+ *   scored with the rules each period was captured under (as in the history browser),
+ *   stage bonuses included when the group's jobs are passed in.
+ */
+export const loadUserProfile = async (username: string, liveStats?: UserStats, jobs: Job[] = []): Promise<UserProfile> => {
+    const snapshots = await loadAllSnapshots();
+
+    // Weekly/monthly/yearly baselines are often captured together; keep one per day
+    const byDay = new Map<string, UserProgressPoint>();
+    [...snapshots]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .forEach(snap => {
+            const user = snap.users.find(u => u.username === username);
+            if (!user) return;
+            const date = getDailyPeriodKey(toZonedDate(snap.createdAt));
+            if (byDay.has(date)) return;
+            byDay.set(date, {
+                date,
+                easy: user.easy,
+                medium: user.medium,
+                hard: user.hard,
+                total: user.total,
+                xp: computeXp(user),
+            });
+        });
+
+    if (liveStats && !liveStats.error) {
+        const date = getDailyPeriodKey();
+        byDay.set(date, {
+            date,
+            easy: liveStats.easy,
+            medium: liveStats.medium,
+            hard: liveStats.hard,
+            total: liveStats.total,
+            xp: computeXp(liveStats),
+        });
+    }
+
+    const periodRanks: UserPeriodRank[] = PERIODS.flatMap(period =>
+        getClosedPeriods(period, snapshots).reverse().flatMap(closed => {
+            const standings = computePeriodStandings(
+                closed.end,
+                closed.start,
+                getScoringRulesForVersion(closed.start.scoringVersion),
+                jobs
+            );
+            const entry = standings.find(s => s.username === username);
+            if (!entry) return [];
+            return [{
+                period,
+                periodKey: closed.periodKey,
+                rank: entry.rank,
+                participants: standings.length,
+                xp: entry.xp,
+            }];
+        })
+    );
+
+    return {
+        progress: [...byDay.values()].sort((a, b) => a.date.localeCompare(b.date)),
+        periodRanks,
+    };
+};
@@ -0,0 +1,99 @@
+import { ClosedPeriod, DifficultyStats, Job, LeaderboardSnapshot, ScoringRules, SnapshotPeriod, UserStats } from '../types';
+import { computeStageXp, computeXp, getScoringRules, withStageXp } from './scoringUtils';
+
+/**
+ * Progress between two points in time: end - baseline, per field.
+ * Counts never go negative (LeetCode occasionally removes problems).
+ * XP is scored from the deltas with the given rules (the active ones by default).
+ */
+export const computeStatDeltas = (
+    end: DifficultyStats,
+    baseline: DifficultyStats,
+    rules: ScoringRules = getScoringRules()
+): DifficultyStats => {
+    const jobsDelta = Math.max(0, end.jobsApplied - (baseline.jobsApplied || 0));
+    const easyDelta = Math.max(0, end.easy - (baseline.easy || 0));
+    const mediumDelta = Math.max(0, end.medium - (baseline.medium || 0));
+    const hardDelta = Math.max(0, end.hard - (baseline.hard || 0));
+    const totalDelta = Math.max(0, end.total - (baseline.total || 0));
+
+    // Recompute XP based on deltas
+    const xpDelta = computeXp({ jobsApplied: jobsDelta, easy: easyDelta, medium: mediumDelta, hard: hardDelta }, rules);
+
+    return {
+        jobsApplied: jobsDelta,
+        easy: easyDelta,
+        medium: mediumDelta,
+        hard: hardDelta,
+        total: totalDelta,
+        xp: xpDelta,
+    };
+};
+
+// Sort by XP (ties broken by total solved) and assign 1-based ranks
+export const rankStats = (items: UserStats[]): UserStats[] => {
+    return [...items]
+        .sort((a, b) => {
+            if (b.xp === a.xp) return b.total - a.total;
+            return b.xp - a.xp;
+        })
+        .map((stat, index) => ({ ...stat, rank: index + 1 }));
+};
+
+/**
+ * Final standings of a closed period: the baseline that opened it (startSnap)
+ * against the one that opened the following period (endSnap).
+ * Users missing from the start baseline weren't tracked yet and are left out,
+ * otherwise their whole lifetime count would show up as progress.
+ * Stage bonuses count for the jobs that reached a stage between the two period boundaries.
+ */
+export const computePeriodStandings = (
+    endSnap: LeaderboardSnapshot,
+    startSnap: LeaderboardSnapshot,
+    rules: ScoringRules = getScoringRules(),
+    jobs: Job[] = []
+): UserStats[] => {
+    const stats: UserStats[] = endSnap.users.flatMap(endUser => {
+        const startUser = startSnap.users.find(u => u.username === endUser.username);
+        if (!startUser) return [];
+
+        return [{
+            username: endUser.username,
+            name: endUser.name,
+            ...computeStatDeltas(endUser, startUser, rules),
+            rank: 0,
+            error: null
+        }];
+    });
+
+    const stageXp = computeStageXp(
+        jobs,
+        rules,
+        startSnap.periodStartAt ?? startSnap.createdAt,
+        endSnap.periodStartAt ?? endSnap.createdAt
+    );
+    return rankStats(withStageXp(stats, stageXp));
+};
+
+/**
+ * Pairs up the stored baselines of one period type into finished periods, oldest first.
+ * One baseline per period key (the earliest captured wins). The latest baseline opens
+ * the current, still running period, so it has no final standings and is not returned.
+ */
+export const getClosedPeriods = (period: SnapshotPeriod, snapshots: LeaderboardSnapshot[]): ClosedPeriod[] => {
+    const byKey = new Map<string, LeaderboardSnapshot>();
+    snapshots
+        .filter(snap => snap.period === period)
+        .forEach(snap => {
+            const existing = byKey.get(snap.periodKey);
+            if (!existing || snap.createdAt < existing.createdAt) byKey.set(snap.periodKey, snap);
+        });
+    const ordered = [...byKey.values()].sort((a, b) => a.periodKey.localeCompare(b.periodKey));
+
+    return ordered.slice(0, -1).map((start, i) => ({
+        period,
+        periodKey: start.periodKey,
+        start,
+        end: ordered[i + 1],
+    }));
+};
@@ -0,0 +1,131 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+    Job,
+    UserStats,
+    SnapshotUserStats,
+    RangeLeaderboard
+} from '../types';
+import { fromBoardTime, getDailyPeriodKey, toZonedDate } from './dateUtils';
+import { loadStatHistory } from './historyUtils';
+import { loadAllSnapshots } from './snapshotUtils';
+import { computeStatDeltas, rankStats } from './progressUtils';
+import { computeStageXp, withStageXp } from './scoringUtils';
+
+// Baselines further than this from the requested day are treated as missing
+export const MAX_BASELINE_DISTANCE_DAYS = 7;
+
+interface BaselineCandidate {
+    date: string; // "yyyy-MM-dd" in Los Angeles time
+    stats: SnapshotUserStats;
+}
+
+const shiftDay = (day: string, amount: number): string => format(addDays(parseISO(day), amount), 'yyyy-MM-dd');
+
+// Closest candidate per user around a target day, within MAX_BASELINE_DISTANCE_DAYS.
+// Ties prefer the earlier day.
+const pickClosest = (candidates: BaselineCandidate[], username: string, target: string): BaselineCandidate | null => {
+    let best: BaselineCandidate | null = null;
+    let bestDistance = Infinity;
+
+    for (const candidate of candidates) {
+        if (candidate.stats.username !== username) continue;
+        const distance = Math.abs(differenceInCalendarDays(parseISO(candidate.date), parseISO(target)));
+        if (distance > MAX_BASELINE_DISTANCE_DAYS) continue;
+        if (distance < bestDistance || (distance === bestDistance && best && candidate.date < best.date)) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+};
+
+// Daily samples and snapshot baselines around a day, in one candidate list
+const loadCandidatesAround = async (
+    day: string,
+    snapshotCandidates: BaselineCandidate[]
+): Promise<BaselineCandidate[]> => {
+    const from = shiftDay(day, -MAX_BASELINE_DISTANCE_DAYS);
+    const to = shiftDay(day, MAX_BASELINE_DISTANCE_DAYS);
+    const samples = await loadStatHistory(from, to);
+
+    return [
+        ...samples.map(sample => ({ date: sample.date, stats: sample })),
+        ...snapshotCandidates.filter(c => c.date >= from && c.date <= to),
+    ];
+};
+
+/**
+ * Ranks users by progress between two days (inclusive), e.g. '2026-03-02' to '2026-03-15'.
+ *
+ * A baseline captured on day D reflects the state at the start of D, so the range
+ * runs from the baseline closest to startDate to the one closest to endDate + 1.
+ * When the range ends today or later, live stats are used as the end point.
+ * Baselines come from both statHistory samples and leaderboardSnapshots.
+ * Stage bonuses count for the jobs that reached a stage within the requested days.
+ */
+export const loadRangeLeaderboard = async (
+    startDate: string,
+    endDate: string,
+    liveStats: UserStats[],
+    jobs: Job[] = []
+): Promise<RangeLeaderboard> => {
+    const today = getDailyPeriodKey();
+    const endBoundary = shiftDay(endDate, 1);
+    const endIsLive = endBoundary > today;
+
+    const snapshots = await loadAllSnapshots();
+    const snapshotCandidates: BaselineCandidate[] = snapshots.flatMap(snapshot => {
+        const date = getDailyPeriodKey(toZonedDate(snapshot.createdAt));
+        return snapshot.users.map(stats => ({ date, stats }));
+    });
+
+    const [startCandidates, endCandidates] = await Promise.all([
+        loadCandidatesAround(startDate, snapshotCandidates),
+        endIsLive ? Promise.resolve([]) : loadCandidatesAround(endBoundary, snapshotCandidates),
+    ]);
+
+    const result: RangeLeaderboard = { stats: [], approximate: [], missing: [] };
+
+    liveStats.forEach(user => {
+        const start = pickClosest(startCandidates, user.username, startDate);
+        const end: BaselineCandidate | null = endIsLive
+            ? (user.error ? null : { date: today, stats: user })
+            : pickClosest(endCandidates, user.username, endBoundary);
+
+        if (!start || !end) {
+            result.missing.push({
+                username: user.username,
+                name: user.name,
+                requestedDate: !start ? startDate : endDate,
+                usedDate: null,
+            });
+            return;
+        }
+
+        if (start.date !== startDate) {
+            result.approximate.push({ username: user.username, name: user.name, requestedDate: startDate, usedDate: start.date });
+        }
+        if (!endIsLive && end.date !== endBoundary) {
+            // Report the end as the last day covered, matching how the user picked it
+            result.approximate.push({ username: user.username, name: user.name, requestedDate: endDate, usedDate: shiftDay(end.date, -1) });
+        }
+
+        result.stats.push({
+            username: user.username,
+            name: user.name,
+            ...computeStatDeltas(end.stats, start.stats),
+            rank: 0,
+            error: null,
+        });
+    });
+
+    const stageXp = computeStageXp(
+        jobs,
+        undefined,
+        fromBoardTime(`${startDate}T00:00`).toISOString(),
+        endIsLive ? undefined : fromBoardTime(`${endBoundary}T00:00`).toISOString()
+    );
+    result.stats = rankStats(withStageXp(result.stats, stageXp));
+    return result;
+};
@@ -0,0 +1,146 @@
+import { AnalyticsFilter, AppRoute, JobSortKey, JobsQuery, LeaderboardTab, SnapshotPeriod } from '../types';
+
+const PERIOD_TABS: SnapshotPeriod[] = ['weekly', 'monthly', 'yearly'];
+
+type RouteListener = (route: AppRoute) => void;
+
+const listeners = new Set<RouteListener>();
+
+const SORT_KEYS: JobSortKey[] = ['username', 'title', 'company', 'status', 'createdAt'];
+
+const isPeriod = (segment: string | undefined): segment is SnapshotPeriod =>
+    PERIOD_TABS.includes(segment as SnapshotPeriod);
+
+// ?q=&status=Applied,Offer&from=&to=&sort=&dir=&page= on the jobs tab
+const parseJobsQuery = (search: string): JobsQuery | undefined => {
+    const params = new URLSearchParams(search);
+    const sort = params.get('sort') as JobSortKey | null;
+    const direction = params.get('dir');
+    const page = Number(params.get('page'));
+    const query: JobsQuery = {
+        search: params.get('q') || undefined,
+        statuses: params.get('status')?.split(',').filter(Boolean),
+        from: params.get('from') || undefined,
+        to: params.get('to') || undefined,
+        sort: sort && SORT_KEYS.includes(sort) ? sort : undefined,
+        direction: direction === 'asc' || direction === 'desc' ? direction : undefined,
+        page: Number.isInteger(page) && page > 1 ? page : undefined,
+    };
+    if (!query.statuses?.length) delete query.statuses;
+    return Object.values(query).some(value => value !== undefined) ? query : undefined;
+};
+
+// ?from=&to= on the analytics tab
+const parseAnalyticsRange = (search: string): Pick<AnalyticsFilter, 'from' | 'to'> => {
+    const params = new URLSearchParams(search);
+    return { from: params.get('from') || undefined, to: params.get('to') || undefined };
+};
+
+const buildAnalyticsSearch = (filter: AnalyticsFilter | undefined): string => {
+    const params = new URLSearchParams();
+    if (filter?.from) params.set('from', filter.from);
+    if (filter?.to) params.set('to', filter.to);
+    const search = params.toString();
+    return search ? `?${search}` : '';
+};
+
+const buildJobsSearch = (query: JobsQuery | undefined): string => {
+    if (!query) return '';
+    const params = new URLSearchParams();
+    if (query.search) params.set('q', query.search);
+    if (query.statuses?.length) params.set('status', query.statuses.join(','));
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.sort) params.set('sort', query.sort);
+    if (query.direction) params.set('dir', query.direction);
+    if (query.page && query.page > 1) params.set('page', String(query.page));
+    const search = params.toString();
+    return search ? `?${search}` : '';
+};
+
+/**
+ * Maps a pathname onto the app's state. Supported routes:
+ *   /                          all time leaderboard
+ *   /jobs, /jobs/:username     jobs, optionally filtered to one user; the query string
+ *                              holds search, filters, sort and page
+ *   /analytics[/:username]     job funnel for the group or one user; ?from=&to= limits the range
+ *   /:period                   weekly, monthly or yearly leaderboard
+ *   /:period/history[/:key]    history browser, at a closed period or the latest one
+ *   /custom                    custom range leaderboard
+ *   /users/:username           user profile (over the all time leaderboard)
+ * Anything else falls back to the all time leaderboard.
+ */
+export const parseRoute = (pathname: string, search: string = ''): AppRoute => {
+    const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const [first, second, third] = segments;
+
+    if (!first) return { tab: 'all' };
+    if (first === 'jobs') return { tab: 'jobs', jobsUser: second, jobsQuery: parseJobsQuery(search) };
+    if (first === 'analytics') return { tab: 'analytics', analytics: { username: second, ...parseAnalyticsRange(search) } };
+    if (first === 'custom') return { tab: 'custom' };
+    if (first === 'users' && second) return { tab: 'all', profile: second };
+    if (isPeriod(first)) {
+        return second === 'history'
+            ? { tab: first, history: { periodKey: third } }
+            : { tab: first };
+    }
+    return { tab: 'all' };
+};
+
+// Inverse of parseRoute
+export const buildPath = (route: AppRoute): string => {
+    const encode = encodeURIComponent;
+    if (route.profile) return `/users/${encode(route.profile)}`;
+
+    switch (route.tab) {
+        case 'all': return '/';
+        case 'jobs': return (route.jobsUser ? `/jobs/${encode(route.jobsUser)}` : '/jobs') + buildJobsSearch(route.jobsQuery);
+        case 'analytics': {
+            const username = route.analytics?.username;
+            return (username ? `/analytics/${encode(username)}` : '/analytics') + buildAnalyticsSearch(route.analytics);
+        }
+        case 'custom': return '/custom';
+        default: {
+            if (!route.history) return `/${route.tab}`;
+            return route.history.periodKey
+                ? `/${route.tab}/history/${encode(route.history.periodKey)}`
+                : `/${route.tab}/history`;
+        }
+    }
+};
+
+export const getCurrentRoute = (): AppRoute => parseRoute(window.location.pathname, window.location.search);
+
+/**
+ * Pushes a new history entry (or replaces the current one) and notifies subscribers.
+ * Navigating to the current path is a no-op so re-clicking a tab doesn't stack entries.
+ */
+export const navigate = (route: AppRoute, replace: boolean = false): void => {
+    const path = buildPath(route);
+    if (path === window.location.pathname + window.location.search) return;
+
+    if (replace) {
+        window.history.replaceState(null, '', path);
+    } else {
+        window.history.pushState(null, '', path);
+    }
+    const parsed = getCurrentRoute();
+    listeners.forEach(listener => listener(parsed));
+};
+
+// Convenience for tab buttons: switches tab, dropping filters and open views
+export const navigateToTab = (tab: LeaderboardTab): void => navigate({ tab });
+
+/**
+ * Subscribe to route changes from navigate() and the browser's back/forward buttons.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToRoute = (listener: RouteListener): (() => void) => {
+    const onPopState = () => listener(getCurrentRoute());
+    listeners.add(listener);
+    window.addEventListener('popstate', onPopState);
+    return () => {
+        listeners.delete(listener);
+        window.removeEventListener('popstate', onPopState);
+    };
+};
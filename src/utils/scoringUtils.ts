@@ -0,0 +1,132 @@
+import { db } from '../firebase';
+import {
+    getDoc,
+    runTransaction
+} from 'firebase/firestore';
+import { DifficultyStats, Job, ScoringRules, ScoringSettingsDoc, UserStats } from '../types';
+import { groupDoc } from './groupUtils';
+import { getStageReachedAt } from './jobUtils';
+
+// settings/scoring (per group) holds the current rules plus every earlier version in `history`
+const SCORING_DOC_ID = 'scoring';
+
+// The original hard-coded formula: jobs*0.5 + easy*1 + medium*2 + hard*4
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+    version: 1,
+    jobApplied: 0.5,
+    easy: 1,
+    medium: 2,
+    hard: 4,
+};
+
+// Rules every XP computation uses unless told otherwise; loaded per page load and group switch
+let activeRules: ScoringRules = DEFAULT_SCORING_RULES;
+let knownVersions = new Map<number, ScoringRules>([[DEFAULT_SCORING_RULES.version, DEFAULT_SCORING_RULES]]);
+
+export const getScoringRules = (): ScoringRules => activeRules;
+
+/**
+ * Rules for a past version, e.g. the one a snapshot was captured with.
+ * Unknown versions fall back to the current rules.
+ */
+export const getScoringRulesForVersion = (version: number = DEFAULT_SCORING_RULES.version): ScoringRules => {
+    return knownVersions.get(version) ?? activeRules;
+};
+
+export type XpInput = Pick<DifficultyStats, 'jobsApplied' | 'easy' | 'medium' | 'hard'>;
+
+export const computeXp = (stats: XpInput, rules: ScoringRules = activeRules): number => {
+    return (stats.jobsApplied * rules.jobApplied) + (stats.easy * rules.easy) +
+        (stats.medium * rules.medium) + (stats.hard * rules.hard);
+};
+
+/**
+ * Stage bonus XP per username for the pipeline stages jobs reached between from
+ * (inclusive) and to (exclusive), both ISO timestamps; a missing end is open.
+ * A bonus counts once per job and stage, in the period the job first reached it.
+ */
+export const computeStageXp = (
+    jobs: Job[],
+    rules: ScoringRules = activeRules,
+    from?: string,
+    to?: string
+): Map<string, number> => {
+    const stageXp = new Map<string, number>();
+    const bonuses = rules.stageBonuses ?? {};
+    if (Object.values(bonuses).every(bonus => !bonus)) return stageXp;
+
+    jobs.forEach(job => {
+        getStageReachedAt(job).forEach((reachedAt, status) => {
+            const bonus = bonuses[status];
+            if (!bonus || (from && reachedAt < from) || (to && reachedAt >= to)) return;
+            stageXp.set(job.username, (stageXp.get(job.username) ?? 0) + bonus);
+        });
+    });
+    return stageXp;
+};
+
+/**
+ * Adds stage bonus XP on top of the XP from solved problems and applications.
+ * A bonus added earlier is replaced, so stats can be re-scored when a job moves.
+ */
+export const withStageXp = (stats: UserStats[], stageXp: Map<string, number>): UserStats[] => {
+    return stats.map(stat => {
+        const bonus = stageXp.get(stat.username) ?? 0;
+        return { ...stat, xp: stat.xp - (stat.stageXp ?? 0) + bonus, stageXp: bonus };
+    });
+};
+
+const applySettings = (settings: ScoringSettingsDoc) => {
+    const { history = [], ...current } = settings;
+    activeRules = current;
+    knownVersions = new Map([
+        [DEFAULT_SCORING_RULES.version, DEFAULT_SCORING_RULES],
+        ...history.map(rules => [rules.version, rules] as [number, ScoringRules]),
+        [current.version, current],
+    ]);
+};
+
+/**
+ * Loads the scoring rules from Firestore and makes them the active rules.
+ * Falls back to the defaults when the settings document doesn't exist yet.
+ */
+export const loadScoringRules = async (): Promise<ScoringRules> => {
+    try {
+        const settingsDoc = await getDoc(groupDoc('settings', SCORING_DOC_ID));
+        // A group without settings yet scores with the defaults, not the previous group's rules
+        applySettings(settingsDoc.exists() ? settingsDoc.data() as ScoringSettingsDoc : DEFAULT_SCORING_RULES);
+    } catch (error) {
+        console.error('Error loading scoring rules:', error);
+    }
+    return activeRules;
+};
+
+/**
+ * Saves new weights as the next scoring version, keeping the previous rules in history
+ * so leaderboards captured under them can still be shown as they were.
+ */
+export const saveScoringRules = async (
+    weights: Omit<ScoringRules, 'version' | 'updatedAt'>
+): Promise<ScoringRules> => {
+    const settingsRef = groupDoc('settings', SCORING_DOC_ID);
+
+    const saved = await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(settingsRef);
+        const previous = existing.exists()
+            ? existing.data() as ScoringSettingsDoc
+            : { ...DEFAULT_SCORING_RULES, history: [] };
+        const { history = [], ...previousRules } = previous;
+
+        const next: ScoringSettingsDoc = {
+            ...weights,
+            version: previousRules.version + 1,
+            updatedAt: new Date().toISOString(),
+            history: [...history, previousRules],
+        };
+        transaction.set(settingsRef, next);
+        return next;
+    });
+
+    applySettings(saved);
+    return activeRules;
+};
@@ -1,22 +1,34 @@
 import { db } from '../firebase';
 import {
-    collection,
+    getDoc,
     getDocs,
-    addDoc,
     query,
     where,
-    limit
+    limit,
+    runTransaction,
+    writeBatch
 } from 'firebase/firestore';
 import {
     UserStats,
     SnapshotPeriod,
+    SnapshotSource,
+    SnapshotUserStats,
     LeaderboardSnapshot
 } from '../types';
 import {
     getWeeklyPeriodKey,
     getMonthlyPeriodKey,
-    getYearlyPeriodKey
+    getYearlyPeriodKey,
+    getPeriodStartInstant
 } from './dateUtils';
+import { getScoringRules } from './scoringUtils';
+import { groupCollection, groupDoc } from './groupUtils';
+
+// Baselines captured later than this after the period boundary are flagged as late
+export const SNAPSHOT_ON_TIME_TOLERANCE_MS = 15 * 60 * 1000;
+
+// Deterministic document ID, one per period: "weekly_2026-W01"
+export const getSnapshotId = (period: SnapshotPeriod, periodKey: string): string => `${period}_${periodKey}`;
 
 // Helper to get the correct period key for a type
 const getPeriodKey = (type: SnapshotPeriod): string => {
@@ -30,17 +42,21 @@ const getPeriodKey = (type: SnapshotPeriod): string => {
 /**
  * Ensures that a snapshot exists for the current period (weekly, monthly, yearly).
  * If not, it creates one using the current stats of the provided users as the baseline.
+ * Users whose fetch failed are left out and patched in on their first successful fetch
+ * in the period, as are users added mid-period, by whichever signed-in member loads
+ * the board next. Entries already in a baseline are never changed.
  * IDEMPOTENCY: This checks for the existence of a snapshot with the specific periodKey
  * before creating one.
  */
 export const ensureSnapshotsForCurrentPeriods = async (
-    currentUsersStats: UserStats[]
+    currentUsersStats: UserStats[],
+    source: SnapshotSource = 'app'
 ): Promise<{ weekly: LeaderboardSnapshot | null, monthly: LeaderboardSnapshot | null, yearly: LeaderboardSnapshot | null }> => {
 
     const results = {
-        weekly: await ensureSnapshot('weekly', currentUsersStats),
-        monthly: await ensureSnapshot('monthly', currentUsersStats),
-        yearly: await ensureSnapshot('yearly', currentUsersStats),
+        weekly: await ensureSnapshot('weekly', currentUsersStats, source),
+        monthly: await ensureSnapshot('monthly', currentUsersStats, source),
+        yearly: await ensureSnapshot('yearly', currentUsersStats, source),
     };
 
     return results;
@@ -49,50 +65,61 @@ export const ensureSnapshotsForCurrentPeriods = async (
 const ensureSnapshot = async (
     period: SnapshotPeriod,
     currentStats: UserStats[],
+    source: SnapshotSource,
     // firestoreUsers: FirestoreUser[] // Not used currently but kept for potential name sync
 ): Promise<LeaderboardSnapshot | null> => {
     try {
         const periodKey = getPeriodKey(period);
-        const snapshotsRef = collection(db, 'leaderboardSnapshots');
 
-        // Check if snapshot exists for this period key
-        const q = query(
-            snapshotsRef,
-            where('period', '==', period),
-            where('periodKey', '==', periodKey), // New field for robust identification
-            limit(1)
-        );
+        // Snapshots written before deterministic IDs live under random IDs.
+        // Reuse those until mergeDuplicateSnapshots has migrated them.
+        const legacy = await findLegacySnapshot(period, periodKey);
+        const snapshotRef = groupDoc('leaderboardSnapshots', legacy?.id ?? getSnapshotId(period, periodKey));
 
-        const snapshotDocs = await getDocs(q);
+        // The transaction makes create-if-missing atomic: when two browsers race at the
+        // start of a period, one commits and the other retries and reads its snapshot.
+        // Patching works the same way, so two browsers never add the same user twice.
+        return await runTransaction(db, async (transaction) => {
+            const existing = await transaction.get(snapshotRef);
+            if (existing.exists()) {
+                const snapshot = { id: existing.id, ...existing.data() } as LeaderboardSnapshot;
+                const missing = getMissingBaselines(snapshot, currentStats);
+                if (missing.length === 0) return snapshot;
 
-        if (!snapshotDocs.empty) {
-            // Snapshot exists, return it
-            const doc = snapshotDocs.docs[0];
-            return { id: doc.id, ...doc.data() } as LeaderboardSnapshot;
-        }
+                // Users left out earlier (failed fetch, joined mid-period) get their baseline now.
+                // The rules only accept appending to the current period's users.
+                console.log(`📸 Adding ${missing.map(u => u.username).join(', ')} to ${period} snapshot ${periodKey}`);
+                const users = [...snapshot.users, ...missing];
+                transaction.update(snapshotRef, { users });
+                return { ...snapshot, users };
+            }
+            // A legacy snapshot migrated away since it was found; the next load uses its copy
+            if (legacy) return null;
+
+            console.log(`📸 Creating new ${period} snapshot for ${periodKey}`);
+
+            // Record how far past the exact period boundary this baseline was taken
+            const capturedAt = new Date();
+            const periodStartAt = getPeriodStartInstant(period);
+            const captureDelayMs = Math.max(0, capturedAt.getTime() - periodStartAt.getTime());
 
-        // No snapshot found for this period key -> Create it!
-        console.log(`📸 Creating new ${period} snapshot for ${periodKey}`);
-
-        const newSnapshot: Omit<LeaderboardSnapshot, 'id'> = {
-            period,
-            periodKey,
-            createdAt: new Date().toISOString(),
-            users: currentStats.map(user => ({
-                username: user.username,
-                name: user.name,
-                jobsApplied: user.jobsApplied,
-                easy: user.easy,
-                medium: user.medium,
-                hard: user.hard,
-                total: user.total,
-                xp: user.xp
-            }))
-        };
-
-        // Add to Firestore
-        const ref = await addDoc(snapshotsRef, newSnapshot);
-        return { id: ref.id, ...newSnapshot };
+            const newSnapshot: Omit<LeaderboardSnapshot, 'id'> = {
+                period,
+                periodKey,
+                createdAt: capturedAt.toISOString(),
+                periodStartAt: periodStartAt.toISOString(),
+                captureDelayMs,
+                capturedOnTime: captureDelayMs <= SNAPSHOT_ON_TIME_TOLERANCE_MS,
+                source,
+                scoringVersion: getScoringRules().version,
+                // A failed fetch reads as all zeros, which would turn the user's whole
+                // lifetime count into "progress". Leave them out until a fetch succeeds.
+                users: currentStats.filter(user => !user.error).map(toSnapshotUser)
+            };
+
+            transaction.set(snapshotRef, newSnapshot);
+            return { id: snapshotRef.id, ...newSnapshot };
+        });
 
     } catch (error) {
         console.error(`Error ensuring ${period} snapshot:`, error);
@@ -100,53 +127,70 @@ const ensureSnapshot = async (
     }
 };
 
+const toSnapshotUser = (user: UserStats): SnapshotUserStats => ({
+    username: user.username,
+    name: user.name,
+    jobsApplied: user.jobsApplied,
+    easy: user.easy,
+    medium: user.medium,
+    hard: user.hard,
+    total: user.total,
+    xp: user.xp
+});
+
+// Baselines for successfully fetched users that the snapshot doesn't have yet
+const getMissingBaselines = (snapshot: LeaderboardSnapshot, currentStats: UserStats[]): SnapshotUserStats[] => {
+    return currentStats
+        .filter(user => !user.error && !snapshot.users.some(u => u.username === user.username))
+        .map(toSnapshotUser);
+};
+
+// Snapshot stored under a random ID by the old addDoc-based creation, if any
+const findLegacySnapshot = async (period: SnapshotPeriod, periodKey: string): Promise<LeaderboardSnapshot | null> => {
+    const q = query(
+        groupCollection('leaderboardSnapshots'),
+        where('period', '==', period),
+        where('periodKey', '==', periodKey)
+    );
+    const snapshotDocs = await getDocs(q);
+    const legacyDocs = snapshotDocs.docs
+        .filter(d => d.id !== getSnapshotId(period, periodKey))
+        .map(d => ({ id: d.id, ...d.data() } as LeaderboardSnapshot));
+
+    // Only legacy copies exist: pick the earliest baseline, which is the correct one
+    if (legacyDocs.length === 0 || legacyDocs.length < snapshotDocs.size) return null;
+    return legacyDocs.sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+};
+
 /**
  * Load the latest snapshot for a specific period type (independent of key).
  * Used for initial load if we want to see history, but typically ensureSnapshot is what we want for "active" logic.
  */
 export const loadLatestSnapshot = async (period: SnapshotPeriod): Promise<LeaderboardSnapshot | null> => {
-    try {
-        const snapshotsRef = collection(db, 'leaderboardSnapshots');
-        // We will just fetch the one matching the current key mostly. 
-        // If we need previous history, we can query by periodKey.
-
-        // Let's stick to getPeriodKey logic for consistency in this refactor.
-        const periodKey = getPeriodKey(period);
-        const qCurrent = query(
-            snapshotsRef,
-            where('period', '==', period),
-            where('periodKey', '==', periodKey),
-            limit(1)
-        );
-        const snapshotDocs = await getDocs(qCurrent);
-        if (!snapshotDocs.empty) {
-            const doc = snapshotDocs.docs[0];
-            return { id: doc.id, ...doc.data() } as LeaderboardSnapshot;
-        }
-        return null;
-
-    } catch (error) {
-        console.error(`Error loading latest ${period} snapshot:`, error);
-        return null;
-    }
+    return loadSnapshotByKey(period, getPeriodKey(period));
 };
 
 /**
  * Loads a snapshot based on a specific period key (e.g., '2025-W52').
+ * Prefers the deterministic document and falls back to legacy random-ID documents.
  */
 export const loadSnapshotByKey = async (period: SnapshotPeriod, periodKey: string): Promise<LeaderboardSnapshot | null> => {
     try {
-        const snapshotsRef = collection(db, 'leaderboardSnapshots');
+        const snapshotDoc = await getDoc(groupDoc('leaderboardSnapshots', getSnapshotId(period, periodKey)));
+        if (snapshotDoc.exists()) {
+            return { id: snapshotDoc.id, ...snapshotDoc.data() } as LeaderboardSnapshot;
+        }
+
         const q = query(
-            snapshotsRef,
+            groupCollection('leaderboardSnapshots'),
             where('period', '==', period),
             where('periodKey', '==', periodKey),
             limit(1)
         );
         const snapshotDocs = await getDocs(q);
         if (!snapshotDocs.empty) {
-            const doc = snapshotDocs.docs[0];
-            return { id: doc.id, ...doc.data() } as LeaderboardSnapshot;
+            const legacyDoc = snapshotDocs.docs[0];
+            return { id: legacyDoc.id, ...legacyDoc.data() } as LeaderboardSnapshot;
         }
         return null;
     } catch (error) {
@@ -154,3 +198,67 @@ export const loadSnapshotByKey = async (period: SnapshotPeriod, periodKey: strin
         return null;
     }
 };
+
+/**
+ * Loads every stored snapshot, optionally restricted to one period type.
+ */
+export const loadAllSnapshots = async (period?: SnapshotPeriod): Promise<LeaderboardSnapshot[]> => {
+    try {
+        const snapshotsRef = groupCollection('leaderboardSnapshots');
+        const q = period ? query(snapshotsRef, where('period', '==', period)) : snapshotsRef;
+        const snapshotDocs = await getDocs(q);
+        return snapshotDocs.docs.map(d => ({ id: d.id, ...d.data() } as LeaderboardSnapshot));
+    } catch (error) {
+        console.error(`Error loading ${period ?? 'all'} snapshots:`, error);
+        return [];
+    }
+};
+
+/**
+ * Cleanup for snapshots created before deterministic IDs: collapses every
+ * period/periodKey group into one document stored under getSnapshotId().
+ * For each user the earliest baseline wins, since a later duplicate would hide
+ * progress made between the two captures. Timing metadata also comes from the
+ * earliest snapshot. Returns how many groups were merged and documents removed.
+ */
+export const mergeDuplicateSnapshots = async (): Promise<{ merged: number, removed: number }> => {
+    const snapshots = await loadAllSnapshots();
+
+    const groups = new Map<string, LeaderboardSnapshot[]>();
+    snapshots.forEach(snap => {
+        const id = getSnapshotId(snap.period, snap.periodKey);
+        groups.set(id, [...(groups.get(id) ?? []), snap]);
+    });
+
+    let merged = 0;
+    let removed = 0;
+
+    for (const [id, group] of groups) {
+        // Already a single canonical document: nothing to do
+        if (group.length === 1 && group[0].id === id) continue;
+
+        const ordered = [...group].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const users = new Map<string, LeaderboardSnapshot['users'][number]>();
+        ordered.forEach(snap => snap.users.forEach(user => {
+            if (!users.has(user.username)) users.set(user.username, user);
+        }));
+
+        const { id: _earliestId, ...earliest } = ordered[0];
+        const canonical: Omit<LeaderboardSnapshot, 'id'> = { ...earliest, users: [...users.values()] };
+
+        const batch = writeBatch(db);
+        batch.set(groupDoc('leaderboardSnapshots', id), canonical);
+        group
+            .filter(snap => snap.id && snap.id !== id)
+            .forEach(snap => {
+                batch.delete(groupDoc('leaderboardSnapshots', snap.id!));
+                removed++;
+            });
+        await batch.commit();
+
+        console.log(`🧹 Merged ${group.length} snapshot(s) into ${id}`);
+        merged++;
+    }
+
+    return { merged, removed };
+};
@@ -0,0 +1,87 @@
+import { CachedSolvedStats } from '../types';
+
+const DB_NAME = 'leetboard';
+const DB_VERSION = 1;
+const STORE_NAME = 'userStats';
+
+// Cached entries younger than this are served without hitting the stats API
+export const STATS_CACHE_TTL_MS = 15 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Open (and lazily create) the IndexedDB cache. Resolves to null when IndexedDB
+// is unavailable (private browsing, SSR) so callers can simply skip caching.
+const openCacheDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+            resolve(null);
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'username' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn('Stats cache unavailable:', request.error);
+            resolve(null);
+        };
+    });
+
+    return dbPromise;
+};
+
+/**
+ * Reads cached solved counts for the given usernames, regardless of age.
+ * Missing users are simply absent from the returned map.
+ */
+export const readCachedStats = async (usernames: string[]): Promise<Map<string, CachedSolvedStats>> => {
+    const result = new Map<string, CachedSolvedStats>();
+    const db = await openCacheDb();
+    if (!db) return result;
+
+    try {
+        const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+        const entries = await Promise.all(usernames.map(username =>
+            new Promise<CachedSolvedStats | undefined>((resolve, reject) => {
+                const request = store.get(username);
+                request.onsuccess = () => resolve(request.result as CachedSolvedStats | undefined);
+                request.onerror = () => reject(request.error);
+            })
+        ));
+        entries.forEach(entry => {
+            if (entry) result.set(entry.username, entry);
+        });
+    } catch (error) {
+        console.warn('Error reading stats cache:', error);
+    }
+
+    return result;
+};
+
+/**
+ * Stores freshly fetched solved counts. Failures are logged and swallowed:
+ * the cache is an optimisation, never a source of truth.
+ */
+export const writeCachedStats = async (entry: CachedSolvedStats): Promise<void> => {
+    const db = await openCacheDb();
+    if (!db) return;
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).put(entry);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (error) {
+        console.warn(`Error caching stats for ${entry.username}:`, error);
+    }
+};
+
+export const isCacheFresh = (entry: CachedSolvedStats, ttlMs: number = STATS_CACHE_TTL_MS): boolean => {
+    return Date.now() - new Date(entry.fetchedAt).getTime() < ttlMs;
+};
@@ -0,0 +1,232 @@
+import {
+    LeetCodeGraphQLResponse,
+    LeetCodeResponse,
+    SolvedStats,
+    StatsProvider,
+    StatsProviderName
+} from '../types';
+import { env } from '../env';
+import { parseSubmissionCalendar } from './activityUtils';
+import fixtureStats from '../fixtures/leetcodeStats.json';
+
+const HEROKU_API_URL = 'https://leetcode-stats-api.herokuapp.com';
+const DEFAULT_GRAPHQL_URL = 'https://leetcode.com/graphql';
+const MAX_RETRIES = 3;
+
+/**
+ * Thrown by a provider when LeetCode reports that the username does not exist.
+ * Falling back to another provider is pointless in that case, so the chain stops.
+ */
+export class UserNotFoundError extends Error {
+    constructor(username: string) {
+        super(`${username} is not a leetcode user`);
+        this.name = 'UserNotFoundError';
+    }
+}
+
+/**
+ * Thrown when a provider answers HTTP 429. Carries the delay requested through
+ * Retry-After so the fetch scheduler can back off before trying again.
+ */
+export class RateLimitError extends Error {
+    retryAfterMs: number;
+
+    constructor(retryAfterMs: number) {
+        super('Rate limited by stats API');
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+const DEFAULT_RETRY_AFTER_MS = 5000;
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number => {
+    if (!header) return DEFAULT_RETRY_AFTER_MS;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    return DEFAULT_RETRY_AFTER_MS;
+};
+
+// Fetch with exponential backoff on network failures and server errors (5xx).
+// 429s are not retried here: they surface as RateLimitError for the scheduler.
+const fetchWithRetry = async (url: string, init?: RequestInit): Promise<Response> => {
+    let attempt = 0;
+
+    while (true) {
+        let response: Response | null = null;
+        try {
+            response = await fetch(url, init);
+        } catch (error) {
+            if (attempt >= MAX_RETRIES) throw error;
+        }
+
+        if (response?.status === 429) {
+            throw new RateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+        }
+        if (response && (response.status < 500 || attempt >= MAX_RETRIES)) {
+            return response;
+        }
+
+        attempt++;
+        const backoff = 1000 * Math.pow(2, attempt - 1); // 1s, 2s, 4s
+        await new Promise(r => setTimeout(r, backoff));
+    }
+};
+
+const isUserMissingMessage = (message: unknown): boolean =>
+    typeof message === 'string' && message.toLowerCase().includes('user does not exist');
+
+/**
+ * leetcode-stats-api.herokuapp.com: the original hobby endpoint.
+ */
+export const herokuProvider: StatsProvider = {
+    name: 'heroku',
+    fetchSolvedStats: async (username: string): Promise<SolvedStats> => {
+        const response = await fetchWithRetry(`${HEROKU_API_URL}/${username}`);
+
+        if (!response.ok) {
+            // Try to parse body when available to get structured error message
+            const maybeJson = await response.json().catch(() => null);
+            if (maybeJson && maybeJson.status === 'error' && isUserMissingMessage(maybeJson.message)) {
+                throw new UserNotFoundError(username);
+            }
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data: LeetCodeResponse = await response.json();
+
+        if (data.status === 'error' && isUserMissingMessage(data.message)) {
+            throw new UserNotFoundError(username);
+        }
+        if (data.status !== 'success') {
+            throw new Error('User not found');
+        }
+
+        return {
+            easy: data.easySolved,
+            medium: data.mediumSolved,
+            hard: data.hardSolved,
+            total: data.totalSolved,
+            submissionCalendar: parseSubmissionCalendar(data.submissionCalendar),
+        };
+    },
+};
+
+const GRAPHQL_SOLVED_QUERY = `
+  query userProblemsSolved($username: String!) {
+    matchedUser(username: $username) {
+      submitStatsGlobal {
+        acSubmissionNum { difficulty count }
+      }
+      submissionCalendar
+    }
+  }
+`;
+
+/**
+ * LeetCode's public GraphQL endpoint. Browsers need a CORS proxy in front of it,
+ * so the URL can be overridden with VITE_LEETCODE_GRAPHQL_URL.
+ */
+export const graphqlProvider: StatsProvider = {
+    name: 'graphql',
+    fetchSolvedStats: async (username: string): Promise<SolvedStats> => {
+        const url = env.VITE_LEETCODE_GRAPHQL_URL || DEFAULT_GRAPHQL_URL;
+        const response = await fetchWithRetry(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ query: GRAPHQL_SOLVED_QUERY, variables: { username } }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data: LeetCodeGraphQLResponse = await response.json();
+
+        if (data.errors?.some(e => isUserMissingMessage(e.message)) || data.data?.matchedUser === null) {
+            throw new UserNotFoundError(username);
+        }
+        if (!data.data?.matchedUser) {
+            throw new Error(data.errors?.[0]?.message || 'Malformed GraphQL response');
+        }
+
+        const counts = data.data.matchedUser.submitStatsGlobal.acSubmissionNum;
+        const countFor = (difficulty: string) => counts.find(c => c.difficulty === difficulty)?.count ?? 0;
+
+        return {
+            easy: countFor('Easy'),
+            medium: countFor('Medium'),
+            hard: countFor('Hard'),
+            total: countFor('All'),
+            submissionCalendar: parseSubmissionCalendar(data.data.matchedUser.submissionCalendar),
+        };
+    },
+};
+
+/**
+ * Serves stats from src/fixtures/leetcodeStats.json. Meant for local development
+ * and tests, so it never touches the network.
+ */
+export const fixtureProvider: StatsProvider = {
+    name: 'fixture',
+    fetchSolvedStats: async (username: string): Promise<SolvedStats> => {
+        const stats = (fixtureStats as Record<string, SolvedStats>)[username];
+        if (!stats) {
+            throw new UserNotFoundError(username);
+        }
+        return { ...stats };
+    },
+};
+
+const PROVIDERS: Record<StatsProviderName, StatsProvider> = {
+    heroku: herokuProvider,
+    graphql: graphqlProvider,
+    fixture: fixtureProvider,
+};
+
+/**
+ * Resolves the ordered provider chain from VITE_STATS_PROVIDERS, e.g. "heroku,graphql".
+ * The first entry is the primary provider; the rest are tried in order when it fails.
+ * Unknown names are ignored and an empty list falls back to the Heroku API.
+ */
+export const getStatsProviders = (
+    config: string = env.VITE_STATS_PROVIDERS || ''
+): StatsProvider[] => {
+    const providers = config
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter((name): name is StatsProviderName => name in PROVIDERS)
+        .map(name => PROVIDERS[name]);
+
+    return providers.length > 0 ? providers : [herokuProvider];
+};
+
+/**
+ * Fetches solved counts through the provider chain, falling back to the next
+ * provider on any failure except a confirmed missing user. If every provider
+ * fails and one of them was rate limited, the RateLimitError wins so the caller
+ * knows to back off.
+ */
+export const fetchSolvedStats = async (
+    username: string,
+    providers: StatsProvider[] = getStatsProviders()
+): Promise<SolvedStats> => {
+    let lastError: unknown = new Error('No stats provider configured');
+    let rateLimitError: RateLimitError | null = null;
+
+    for (const provider of providers) {
+        try {
+            return await provider.fetchSolvedStats(username);
+        } catch (error) {
+            if (error instanceof UserNotFoundError) throw error;
+            if (error instanceof RateLimitError) rateLimitError = error;
+            console.warn(`⚠️ ${provider.name} provider failed for ${username}:`, error);
+            lastError = error;
+        }
+    }
+
+    throw rateLimitError ?? lastError;
+};
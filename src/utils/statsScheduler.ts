@@ -0,0 +1,124 @@
+import { FetchProgress, SolvedStats } from '../types';
+import { fetchSolvedStats, RateLimitError } from './statsProviders';
+
+const INITIAL_CONCURRENCY = 3;
+const MIN_CONCURRENCY = 1;
+const MAX_CONCURRENCY = 6;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+interface QueuedFetch {
+    username: string;
+    attempts: number;
+    resolve: (stats: SolvedStats) => void;
+    reject: (error: unknown) => void;
+}
+
+type ProgressListener = (progress: FetchProgress) => void;
+
+// Module-level scheduler state: every caller in the app shares one queue and budget
+const inFlight = new Map<string, Promise<SolvedStats>>();
+const queue: QueuedFetch[] = [];
+const listeners = new Set<ProgressListener>();
+
+let concurrency = INITIAL_CONCURRENCY;
+let active = 0;
+let successStreak = 0;
+let pausedUntil = 0;
+let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+let progress: FetchProgress = { completed: 0, total: 0 };
+
+const emitProgress = () => {
+    listeners.forEach(listener => listener(progress));
+};
+
+// Additive increase: widen the budget after a full round of successes
+const onSuccess = () => {
+    successStreak++;
+    if (successStreak >= concurrency) {
+        concurrency = Math.min(MAX_CONCURRENCY, concurrency + 1);
+        successStreak = 0;
+    }
+};
+
+// Multiplicative decrease: halve the budget and pause for as long as the API asked
+const onRateLimited = (retryAfterMs: number) => {
+    concurrency = Math.max(MIN_CONCURRENCY, Math.floor(concurrency / 2));
+    successStreak = 0;
+    pausedUntil = Math.max(pausedUntil, Date.now() + retryAfterMs);
+    console.warn(`⏳ Stats API rate limited, pausing ${Math.round(retryAfterMs / 1000)}s (concurrency ${concurrency})`);
+};
+
+const run = async (task: QueuedFetch) => {
+    active++;
+    try {
+        const stats = await fetchSolvedStats(task.username);
+        onSuccess();
+        task.resolve(stats);
+    } catch (error) {
+        if (error instanceof RateLimitError && task.attempts < MAX_RATE_LIMIT_RETRIES) {
+            onRateLimited(error.retryAfterMs);
+            queue.unshift({ ...task, attempts: task.attempts + 1 });
+        } else {
+            task.reject(error);
+        }
+    } finally {
+        active--;
+        pump();
+    }
+};
+
+const pump = () => {
+    if (resumeTimer) return;
+
+    const wait = pausedUntil - Date.now();
+    if (wait > 0) {
+        resumeTimer = setTimeout(() => {
+            resumeTimer = null;
+            pump();
+        }, wait);
+        return;
+    }
+
+    while (active < concurrency && queue.length > 0) {
+        run(queue.shift()!);
+    }
+};
+
+/**
+ * Requests solved counts for a user through the shared scheduler.
+ * Concurrent requests for the same username share one in-flight fetch.
+ */
+export const requestSolvedStats = (username: string): Promise<SolvedStats> => {
+    const existing = inFlight.get(username);
+    if (existing) return existing;
+
+    // A new batch of work starts once the previous one has fully drained
+    if (progress.completed >= progress.total) {
+        progress = { completed: 0, total: 0 };
+    }
+    progress = { ...progress, total: progress.total + 1 };
+    emitProgress();
+
+    const promise = new Promise<SolvedStats>((resolve, reject) => {
+        queue.push({ username, attempts: 0, resolve, reject });
+        pump();
+    }).finally(() => {
+        inFlight.delete(username);
+        progress = { ...progress, completed: progress.completed + 1 };
+        emitProgress();
+    });
+
+    inFlight.set(username, promise);
+    return promise;
+};
+
+/**
+ * Subscribes to progress updates ("12/30 users loaded"). Returns an unsubscribe function.
+ */
+export const subscribeToFetchProgress = (listener: ProgressListener): (() => void) => {
+    listeners.add(listener);
+    listener(progress);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,102 @@
+import {
+    UserStats,
+    FirestoreUser,
+    SolvedStats,
+    CachedSolvedStats
+} from '../types';
+import { UserNotFoundError } from './statsProviders';
+import { requestSolvedStats } from './statsScheduler';
+import { readCachedStats, writeCachedStats, isCacheFresh } from './statsCache';
+import { computeXp, getScoringRules } from './scoringUtils';
+import { computeStreaks } from './activityUtils';
+
+// Build a leaderboard row from solved counts and the user's job count
+export const buildUserStats = (
+    username: string,
+    jobsApplied: number,
+    solved: SolvedStats,
+    updatedAt: string
+): UserStats => {
+    const { easy, medium, hard, total, submissionCalendar } = solved;
+    const xp = computeXp({ jobsApplied, easy, medium, hard });
+    return {
+        username,
+        jobsApplied,
+        easy,
+        medium,
+        hard,
+        total,
+        xp,
+        rank: 0, // Will be assigned after sorting
+        error: null,
+        updatedAt,
+        ...(submissionCalendar && {
+            submissionCalendar,
+            ...computeStreaks(submissionCalendar),
+            activeDays: Object.keys(submissionCalendar).length,
+        }),
+    };
+};
+
+// Fetch stats for a single user through the shared fetch scheduler
+export const fetchUserStats = async (username: string, jobsApplied: number = 0): Promise<UserStats> => {
+    console.log(`🔍 Fetching stats for ${username} with ${jobsApplied} jobs`);
+    const emptyStats: UserStats = {
+        username,
+        jobsApplied,
+        easy: 0,
+        medium: 0,
+        hard: 0,
+        total: 0,
+        xp: 0,
+        rank: 0,
+    };
+
+    try {
+        const solved = await requestSolvedStats(username);
+        const fetchedAt = new Date().toISOString();
+        await writeCachedStats({ username, ...solved, fetchedAt });
+
+        const stats = buildUserStats(username, jobsApplied, solved, fetchedAt);
+        console.log(`  ✅ ${username}: Jobs=${jobsApplied}, XP=${stats.xp} (${jobsApplied * getScoringRules().jobApplied} from jobs)`);
+        return stats;
+    } catch (error) {
+        if (error instanceof UserNotFoundError) {
+            return { ...emptyStats, error: 'this is not a leetcode user' };
+        }
+        console.error(`Error fetching stats for ${username}:`, error);
+        return {
+            ...emptyStats,
+            error: error instanceof Error ? error.message : 'LeetCode API unavailable',
+        };
+    }
+};
+
+// Stats from the IndexedDB cache regardless of age, for rendering before any fetch
+export const getCachedUserStats = async (userList: FirestoreUser[]): Promise<UserStats[]> => {
+    const cached = await readCachedStats(userList.map(u => u.username));
+    return userList
+        .filter(u => cached.has(u.username))
+        .map(u => {
+            const entry = cached.get(u.username)!;
+            return { ...buildUserStats(u.username, u.jobsApplied || 0, entry, entry.fetchedAt), name: u.name };
+        });
+};
+
+// Stats for every user. Fresh cache entries are reused unless forceRefresh is set;
+// the rest go through the fetch scheduler, which owns concurrency and rate limiting.
+export const fetchAllUserStats = async (userList: FirestoreUser[], forceRefresh: boolean = false): Promise<UserStats[]> => {
+    const cached = forceRefresh
+        ? new Map<string, CachedSolvedStats>()
+        : await readCachedStats(userList.map(u => u.username));
+
+    const stats = await Promise.all(userList.map(u => {
+        const entry = cached.get(u.username);
+        if (entry && isCacheFresh(entry)) {
+            return buildUserStats(u.username, u.jobsApplied || 0, entry, entry.fetchedAt);
+        }
+        return fetchUserStats(u.username, u.jobsApplied || 0);
+    }));
+
+    return stats.map((s, idx) => ({ ...s, name: userList[idx]?.name }));
+};
@@ -0,0 +1,135 @@
+import { db } from '../firebase';
+import {
+    deleteDoc,
+    getDocs,
+    query,
+    updateDoc,
+    where,
+    writeBatch,
+    WriteBatch
+} from 'firebase/firestore';
+import { FirestoreUser, LeaderboardSnapshot, StatHistorySample } from '../types';
+import { DEFAULT_GROUP_ID, getActiveGroupId, groupCollection, groupDoc, removeGroupMember, renameGroupMember } from './groupUtils';
+import { relinkUsername, unlinkUsername } from './authUtils';
+import { jobDeleteWrites } from './jobUtils';
+
+// Firestore allows 500 writes per batch; stay well below it
+const MAX_BATCH_WRITES = 400;
+
+/**
+ * Loads every tracked user of the active group with their job counts.
+ * Archived users are left out unless asked for (e.g. by member management).
+ */
+export const loadUsers = async (includeArchived: boolean = false): Promise<FirestoreUser[]> => {
+    try {
+        const usersRef = groupCollection('users');
+        const snapshot = await getDocs(usersRef);
+        const userList: FirestoreUser[] = snapshot.docs.map(d => {
+            const data = d.data();
+            return {
+                id: d.id,
+                username: data.username as string,
+                name: data.name as string | undefined,
+                jobsApplied: data.jobsApplied as number | undefined,
+                archived: data.archived as boolean | undefined,
+            };
+        }).filter(user => includeArchived || !user.archived);
+        console.log('📋 Loaded users with job counts:', userList.map(u => `${u.username}: ${u.jobsApplied || 0}`));
+        return userList;
+    } catch (error) {
+        console.error('Error loading users from Firestore:', error);
+        return [];
+    }
+};
+
+// Runs the writes in as many batches as needed. Not atomic as a whole, so callers
+// must be safe to re-run after a partial failure.
+export const commitInBatches = async (writes: ((batch: WriteBatch) => void)[]): Promise<void> => {
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+        await batch.commit();
+    }
+};
+
+// Sets a user's job count to a recount of their job documents, in one write
+export const setJobsApplied = async (userId: string, count: number): Promise<void> => {
+    await updateDoc(groupDoc('users', userId), { jobsApplied: count });
+};
+
+export const updateUserName = async (user: FirestoreUser, name: string): Promise<void> => {
+    await updateDoc(groupDoc('users', user.id!), { name });
+};
+
+/**
+ * Archived users drop out of every ranking but keep their jobs, baselines and history,
+ * so unarchiving brings them back as they were.
+ */
+export const setUserArchived = async (user: FirestoreUser, archived: boolean): Promise<void> => {
+    await updateDoc(groupDoc('users', user.id!), { archived });
+};
+
+/**
+ * Permanently removes a user and all of their jobs from the active group, along with
+ * the sign-in's access: the linked account and username claim in the default group,
+ * the group membership in any other.
+ * Snapshots and history keep their old entries; without a user they're never shown.
+ */
+export const deleteUser = async (user: FirestoreUser): Promise<void> => {
+    const jobDocs = await getDocs(query(groupCollection('jobs'), where('username', '==', user.username)));
+    await commitInBatches(jobDocs.docs.flatMap(jobDoc => jobDeleteWrites(jobDoc.id)));
+
+    const groupId = getActiveGroupId();
+    if (groupId === DEFAULT_GROUP_ID) {
+        await unlinkUsername(user.username);
+    } else {
+        await removeGroupMember(groupId, user.username);
+    }
+
+    // The user goes last, so a failed cascade can be retried from the UI
+    await deleteDoc(groupDoc('users', user.id!));
+    console.log(`🗑️ Deleted ${user.username} and ${jobDocs.size} job(s)`);
+};
+
+/**
+ * Changes a user's LeetCode username and migrates everything keyed by it in the
+ * active group: jobs, snapshot baselines, stat history (whose IDs contain the
+ * username) and the linked account or group membership.
+ * The user document is renamed last, so re-running after a failure finishes the job.
+ */
+export const renameUser = async (user: FirestoreUser, newUsername: string): Promise<void> => {
+    const oldUsername = user.username;
+    const writes: ((batch: WriteBatch) => void)[] = [];
+
+    const jobDocs = await getDocs(query(groupCollection('jobs'), where('username', '==', oldUsername)));
+    jobDocs.docs.forEach(jobDoc => writes.push(batch => batch.update(jobDoc.ref, { username: newUsername })));
+
+    const snapshotDocs = await getDocs(groupCollection('leaderboardSnapshots'));
+    snapshotDocs.docs.forEach(snapshotDoc => {
+        const { users } = snapshotDoc.data() as LeaderboardSnapshot;
+        if (!users.some(u => u.username === oldUsername)) return;
+        const renamed = users.map(u => u.username === oldUsername ? { ...u, username: newUsername } : u);
+        writes.push(batch => batch.update(snapshotDoc.ref, { users: renamed }));
+    });
+
+    const historyDocs = await getDocs(query(groupCollection('statHistory'), where('username', '==', oldUsername)));
+    historyDocs.docs.forEach(historyDoc => {
+        const { id: _id, ...sample } = historyDoc.data() as StatHistorySample;
+        writes.push(batch => {
+            batch.set(groupDoc('statHistory', `${newUsername}_${sample.date}`), { ...sample, username: newUsername });
+            batch.delete(historyDoc.ref);
+        });
+    });
+
+    await commitInBatches(writes);
+
+    const groupId = getActiveGroupId();
+    if (groupId === DEFAULT_GROUP_ID) {
+        await relinkUsername(oldUsername, newUsername);
+    } else {
+        await renameGroupMember(groupId, oldUsername, newUsername);
+    }
+
+    await updateDoc(groupDoc('users', user.id!), { username: newUsername });
+    console.log(`✏️ Renamed ${oldUsername} to ${newUsername}`);
+};
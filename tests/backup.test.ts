@@ -0,0 +1,196 @@
+/**
+ * Backup and restore tests. Run against the Firestore and Auth emulators with
+ * `npm test`, signed in as an admin like `npm run restore` would be.
+ */
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { initializeTestEnvironment, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import type { BackupCollection, LeetBoardBackup, RestoreCounts } from '../src/types';
+
+// Read by src/firebase.ts when it's first imported, below
+process.env.VITE_FIREBASE_USE_EMULATORS = 'true';
+process.env.VITE_FIREBASE_PROJECT_ID = 'demo-leetboard';
+process.env.VITE_FIREBASE_API_KEY = 'demo-key';
+
+const job = (username: string, title: string) => ({ username, title, company: 'Acme', url: '', status: 'Applied', createdAt: '2026-01-15T20:00:00.000Z' });
+const snapshotUser = (username: string) => ({ username, jobsApplied: 1, easy: 1, medium: 1, hard: 1, total: 3, xp: 7.5 });
+
+let testEnv: RulesTestEnvironment;
+let backupUtils: typeof import('../src/utils/backupUtils');
+let firebase: typeof import('../src/firebase');
+let adminUid: string;
+
+// Documents of one collection as stored, by ID
+const stored = async (name: string): Promise<Record<string, unknown>> => {
+    let docs: Record<string, unknown> = {};
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+        const snapshot = await context.firestore().collection(name).get();
+        docs = Object.fromEntries(snapshot.docs.map(d => [d.id, d.data()]));
+    });
+    return docs;
+};
+
+// A backup of the current data, as read back from its file
+const exportToFile = async (): Promise<LeetBoardBackup> =>
+    JSON.parse(JSON.stringify(await backupUtils.exportBackup()));
+
+const counts = (overrides: Partial<Record<BackupCollection, Partial<RestoreCounts>>>) => {
+    const none = { created: 0, overwritten: 0, deleted: 0 };
+    return Object.fromEntries((['settings', 'users', 'jobs', 'leaderboardSnapshots', 'statHistory'] as const)
+        .map(name => [name, { ...none, ...overrides[name] }]));
+};
+
+before(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-leetboard',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+    firebase = await import('../src/firebase');
+    backupUtils = await import('../src/utils/backupUtils');
+    const { createUserWithEmailAndPassword } = await import('firebase/auth');
+    const { user } = await createUserWithEmailAndPassword(firebase.auth, `admin-${Date.now()}@example.com`, 'password');
+    adminUid = user.uid;
+});
+
+after(async () => {
+    if (firebase) {
+        const { deleteApp } = await import('firebase/app');
+        await deleteApp(firebase.db.app);
+    }
+    await testEnv?.cleanup();
+});
+
+// Two users with a job each (alice's with private notes), one snapshot, one history
+// sample and the scoring settings
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        const batch = db.batch();
+        batch.set(db.doc(`accounts/${adminUid}`), { username: 'admin', role: 'admin' });
+        batch.set(db.doc('users/alice'), { username: 'alice', jobsApplied: 1 });
+        batch.set(db.doc('users/bob'), { username: 'bob', jobsApplied: 1 });
+        batch.set(db.doc('jobs/alice-job'), job('alice', 'SWE'));
+        batch.set(db.doc('jobs/bob-job'), job('bob', 'SRE'));
+        batch.set(db.doc('jobs/alice-job/private/details'), { notes: 'Referred by Dana' });
+        batch.set(db.doc('leaderboardSnapshots/weekly_2026-W03'), {
+            period: 'weekly',
+            periodKey: '2026-W03',
+            createdAt: '2026-01-12T08:00:00.000Z',
+            users: [snapshotUser('alice'), snapshotUser('bob')],
+        });
+        batch.set(db.doc('statHistory/alice_2026-01-15'), { ...snapshotUser('alice'), date: '2026-01-15', sampledAt: '2026-01-15T20:00:00.000Z' });
+        batch.set(db.doc('settings/scoring'), { version: 1, jobApplied: 1, easy: 1, medium: 2, hard: 3 });
+        await batch.commit();
+    });
+});
+
+describe('export', () => {
+    it('writes a backup that validates as is', async () => {
+        const backup = await exportToFile();
+        assert.deepEqual(backup.users.map(user => user.id).sort(), ['alice', 'bob']);
+        assert.equal(backup.jobs.length, 2);
+        assert.equal(backup.leaderboardSnapshots.length, 1);
+        assert.equal(backup.statHistory.length, 1);
+        assert.equal(backup.settings.scoring?.version, 1);
+        assert.equal(backup.jobs.find(j => j.id === 'alice-job')?.notes, 'Referred by Dana');
+
+        const { backup: validated, errors, warnings } = backupUtils.validateBackup(backup);
+        assert.ok(validated);
+        assert.deepEqual(errors, []);
+        assert.deepEqual(warnings, []);
+    });
+});
+
+describe('restore', () => {
+    // A backup without bob's job and with a new one, taken before the title of alice's job changed
+    const changedBackup = async (): Promise<LeetBoardBackup> => {
+        const backup = await exportToFile();
+        backup.jobs = [
+            ...backup.jobs.filter(j => j.id !== 'bob-job'),
+            { id: 'carol-job', ...job('alice', 'Data Engineer') },
+        ];
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc('jobs/alice-job').update({ title: 'Changed' }));
+        return backup;
+    };
+
+    it('only counts on a dry run', async () => {
+        const backup = await changedBackup();
+        const jobsBefore = await stored('jobs');
+
+        const report = await backupUtils.restoreBackup(backup, 'replace', true);
+        assert.equal(report.dryRun, true);
+        assert.deepEqual(report.counts, counts({
+            settings: { overwritten: 1 },
+            users: { overwritten: 2 },
+            jobs: { created: 1, overwritten: 1, deleted: 1 },
+            leaderboardSnapshots: { overwritten: 1 },
+            statHistory: { overwritten: 1 },
+        }));
+        assert.deepEqual(await stored('jobs'), jobsBefore);
+    });
+
+    it('merges: overwrites and adds, keeps documents missing from the file', async () => {
+        const backup = await changedBackup();
+
+        const report = await backupUtils.restoreBackup(backup, 'merge', false);
+        assert.deepEqual(report.counts.jobs, { created: 1, overwritten: 1, deleted: 0 });
+
+        const jobs = await stored('jobs');
+        assert.deepEqual(Object.keys(jobs).sort(), ['alice-job', 'bob-job', 'carol-job']);
+        assert.equal((jobs['alice-job'] as { title: string }).title, 'SWE');
+    });
+
+    it('replaces: also deletes documents missing from the file', async () => {
+        const backup = await changedBackup();
+        backup.statHistory = [];
+
+        const report = await backupUtils.restoreBackup(backup, 'replace', false);
+        assert.deepEqual(report.counts.jobs, { created: 1, overwritten: 1, deleted: 1 });
+        assert.deepEqual(report.counts.statHistory, { created: 0, overwritten: 0, deleted: 1 });
+
+        const jobs = await stored('jobs');
+        assert.deepEqual(Object.keys(jobs).sort(), ['alice-job', 'carol-job']);
+        assert.equal((jobs['alice-job'] as { title: string }).title, 'SWE');
+        assert.deepEqual(await stored('statHistory'), {});
+        assert.deepEqual(Object.keys(await stored('users')).sort(), ['alice', 'bob']);
+    });
+
+    it('restores into an empty project', async () => {
+        const backup = await exportToFile();
+        await testEnv.clearFirestore();
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc(`accounts/${adminUid}`).set({ username: 'admin', role: 'admin' }));
+
+        const report = await backupUtils.restoreBackup(backup, 'merge', false);
+        assert.deepEqual(report.counts, counts({
+            settings: { created: 1 },
+            users: { created: 2 },
+            jobs: { created: 2 },
+            leaderboardSnapshots: { created: 1 },
+            statHistory: { created: 1 },
+        }));
+        assert.deepEqual(Object.keys(await stored('jobs')).sort(), ['alice-job', 'bob-job']);
+    });
+
+    it('puts notes back in the private details, not on the job', async () => {
+        const backup = await exportToFile();
+        await testEnv.clearFirestore();
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc(`accounts/${adminUid}`).set({ username: 'admin', role: 'admin' }));
+
+        await backupUtils.restoreBackup(backup, 'merge', false);
+        assert.equal((await stored('jobs') as Record<string, { notes?: string }>)['alice-job'].notes, undefined);
+        assert.deepEqual(await stored('jobs/alice-job/private'), { details: { notes: 'Referred by Dana' } });
+        assert.deepEqual(await stored('jobs/bob-job/private'), {});
+    });
+
+    it('deletes the details of jobs it replaces or removes', async () => {
+        const backup = await exportToFile();
+        backup.jobs = backup.jobs.filter(j => j.id !== 'alice-job');
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc('jobs/bob-job/private/details').set({ notes: 'Added since' }));
+
+        await backupUtils.restoreBackup(backup, 'replace', false);
+        assert.deepEqual(await stored('jobs/alice-job/private'), {});
+        assert.deepEqual(await stored('jobs/bob-job/private'), {});
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * Backup file validation tests. Nothing is read or written, so they run without
+ * the emulators: `npm run test:unit`.
+ */
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LeetBoardBackup } from '../src/types';
+
+// src/firebase.ts, imported by backupUtils, needs a config even when nothing connects
+process.env.VITE_FIREBASE_PROJECT_ID = 'demo-leetboard';
+process.env.VITE_FIREBASE_API_KEY = 'demo-key';
+
+const snapshotUser = (username: string) => ({ username, jobsApplied: 1, easy: 1, medium: 1, hard: 1, total: 3, xp: 7.5 });
+const job = (id: string, username: string, title: string) => ({ id, username, title, company: 'Acme', url: '', status: 'Applied', createdAt: '2026-01-15T20:00:00.000Z' });
+
+let backupUtils: typeof import('../src/utils/backupUtils');
+
+// What exporting the backup tests' data writes, read back from its file
+const backupFile = (): LeetBoardBackup => ({
+    schemaVersion: backupUtils.BACKUP_SCHEMA_VERSION,
+    exportedAt: '2026-01-16T00:00:00.000Z',
+    groupId: 'default',
+    users: [{ id: 'alice', username: 'alice', jobsApplied: 1 }, { id: 'bob', username: 'bob', jobsApplied: 1 }],
+    jobs: [{ ...job('alice-job', 'alice', 'SWE'), notes: 'Referred by Dana' }, job('bob-job', 'bob', 'SRE')],
+    leaderboardSnapshots: [{
+        id: 'weekly_2026-W03',
+        period: 'weekly',
+        periodKey: '2026-W03',
+        createdAt: '2026-01-12T08:00:00.000Z',
+        users: [snapshotUser('alice'), snapshotUser('bob')],
+    }],
+    statHistory: [{ id: 'alice_2026-01-15', ...snapshotUser('alice'), date: '2026-01-15', sampledAt: '2026-01-15T20:00:00.000Z' }],
+    settings: { scoring: { version: 1, jobApplied: 1, easy: 1, medium: 2, hard: 3 } },
+});
+
+before(async () => {
+    backupUtils = await import('../src/utils/backupUtils');
+});
+
+describe('validation', () => {
+    it('accepts a backup as exported', () => {
+        const { backup, errors, warnings } = backupUtils.validateBackup(backupFile());
+        assert.ok(backup);
+        assert.deepEqual(errors, []);
+        assert.deepEqual(warnings, []);
+    });
+
+    it('rejects files that are not backups', () => {
+        for (const data of [null, [], 'backup', {}]) {
+            const { backup, errors } = backupUtils.validateBackup(data);
+            assert.equal(backup, null);
+            assert.ok(errors.length > 0);
+        }
+    });
+
+    it('rejects backups from a newer version', () => {
+        const { backup, errors } = backupUtils.validateBackup({ ...backupFile(), schemaVersion: backupUtils.BACKUP_SCHEMA_VERSION + 1 });
+        assert.equal(backup, null);
+        assert.match(errors[0], /newer LeetBoard/);
+    });
+
+    it('reports wrong field types and repeated IDs by path', () => {
+        const file = backupFile();
+        file.jobs[1] = { ...file.jobs[1], id: file.jobs[0].id };
+        (file.users[0] as unknown as Record<string, unknown>).jobsApplied = 'three';
+
+        const { backup, errors } = backupUtils.validateBackup(file);
+        assert.equal(backup, null);
+        assert.ok(errors.includes('users[0].jobsApplied: expected number, got string'));
+        assert.ok(errors.some(error => error.startsWith('jobs[1].id:') && error.includes('more than once')));
+    });
+
+    it('keeps unknown fields as warnings', () => {
+        const file = backupFile();
+        (file.jobs[0] as unknown as Record<string, unknown>).salary = '100k';
+
+        const { backup, errors, warnings } = backupUtils.validateBackup(file);
+        assert.ok(backup);
+        assert.deepEqual(errors, []);
+        assert.deepEqual(warnings, ['jobs[0].salary: not in the schema, restored as is']);
+    });
+});
@@ -0,0 +1,467 @@
+/**
+ * Security rules tests. Run against the Firestore emulator with `npm test`,
+ * which starts it through `firebase emulators:exec`.
+ */
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { readFileSync } from 'node:fs';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import { SnapshotPeriod } from '../src/types';
+import { addDaysToDayKey, getDailyPeriodKey, getMonthlyPeriodKey, getNextPeriodKey, getWeeklyPeriodKey, getYearlyPeriodKey } from '../src/utils/dateUtils';
+
+const ADMIN = 'admin-uid';
+const ALICE = 'alice-uid';
+const BOB = 'bob-uid';
+const INVITE_CODE = 'ABCD2345';
+
+const snapshotUser = (username: string) => ({ username, jobsApplied: 1, easy: 1, medium: 1, hard: 1, total: 3, xp: 7.5 });
+const TODAY = getDailyPeriodKey();
+const sample = (username: string, date = TODAY) => ({ ...snapshotUser(username), date, sampledAt: new Date().toISOString() });
+const job = (username: string) => ({ username, title: 'SWE', company: 'Acme', url: 'https://acme.com/jobs/1', status: 'Applied', createdAt: '2026-01-15T20:00:00.000Z' });
+
+let testEnv: RulesTestEnvironment;
+
+const as = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+before(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-leetboard',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+});
+
+after(async () => {
+    await testEnv?.cleanup();
+});
+
+// alice and bob are members, admin is an admin; group g1 has alice as a member
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        const batch = db.batch();
+        batch.set(db.doc(`accounts/${ADMIN}`), { username: 'admin', role: 'admin' });
+        batch.set(db.doc(`accounts/${ALICE}`), { username: 'alice', role: 'member' });
+        batch.set(db.doc(`accounts/${BOB}`), { username: 'bob', role: 'member' });
+        batch.set(db.doc('usernameClaims/admin'), { uid: ADMIN });
+        batch.set(db.doc('usernameClaims/alice'), { uid: ALICE });
+        batch.set(db.doc('usernameClaims/bob'), { uid: BOB });
+        batch.set(db.doc('users/alice'), { username: 'alice', jobsApplied: 2 });
+        batch.set(db.doc('users/bob'), { username: 'bob', jobsApplied: 1 });
+        batch.set(db.doc('jobs/alice-job'), job('alice'));
+        batch.set(db.doc('jobs/bob-job'), job('bob'));
+        batch.set(db.doc('leaderboardSnapshots/weekly_2026-W03'), {
+            period: 'weekly',
+            periodKey: '2026-W03',
+            createdAt: '2026-01-12T08:00:00.000Z',
+            users: [snapshotUser('alice')],
+        });
+        batch.set(db.doc('groups/g1'), { name: 'Study group', createdAt: '2026-01-01T00:00:00.000Z', createdBy: ADMIN });
+        batch.set(db.doc(`groups/g1/members/${ADMIN}`), { username: 'admin', role: 'admin' });
+        batch.set(db.doc(`groups/g1/members/${ALICE}`), { username: 'alice', role: 'member' });
+        batch.set(db.doc('groups/g1/users/alice'), { username: 'alice', jobsApplied: 0 });
+        batch.set(db.doc('groups/g1/users/bob'), { username: 'bob', jobsApplied: 0 });
+        batch.set(db.doc('groups/g1/private/invite'), { code: INVITE_CODE });
+        batch.set(db.doc(`groupInvites/${INVITE_CODE}`), { groupId: 'g1' });
+        await batch.commit();
+    });
+});
+
+describe('jobs', () => {
+    it('lets members add, change and delete their own jobs', async () => {
+        await assertSucceeds(as(ALICE).collection('jobs').add(job('alice')));
+        await assertSucceeds(as(ALICE).doc('jobs/alice-job').update({ status: 'Interview' }));
+        await assertSucceeds(as(ALICE).doc('jobs/alice-job').delete());
+    });
+
+    it("keeps members away from other people's jobs", async () => {
+        await assertFails(as(ALICE).collection('jobs').add(job('bob')));
+        await assertFails(as(ALICE).doc('jobs/bob-job').update({ status: 'Interview' }));
+        await assertFails(as(ALICE).doc('jobs/bob-job').delete());
+    });
+
+    it("doesn't let members hand their jobs to someone else", async () => {
+        await assertFails(as(ALICE).doc('jobs/alice-job').update({ username: 'bob' }));
+    });
+
+    it("lets admins manage everyone's jobs", async () => {
+        await assertSucceeds(as(ADMIN).doc('jobs/bob-job').update({ status: 'Offer' }));
+        await assertSucceeds(as(ADMIN).doc('jobs/bob-job').delete());
+    });
+
+    it('lets nobody write without an account', async () => {
+        await assertFails(testEnv.unauthenticatedContext().firestore().collection('jobs').add(job('alice')));
+        await assertFails(as('stranger-uid').collection('jobs').add(job('alice')));
+    });
+});
+
+describe('job notes and contacts', () => {
+    const details = { notes: 'Referred by Dana', contacts: [{ name: 'Dana', role: 'Referrer' }] };
+
+    // Jobs saved before notes were private, with them still on the job
+    const seedLegacyJob = () => testEnv.withSecurityRulesDisabled(context =>
+        context.firestore().doc('jobs/legacy-job').set({ ...job('alice'), ...details }));
+
+    it("shows a job's details to its owner and admins only", async () => {
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc('jobs/alice-job/private/details').set(details));
+        await assertSucceeds(as(ALICE).doc('jobs/alice-job/private/details').get());
+        await assertSucceeds(as(ADMIN).doc('jobs/alice-job/private/details').get());
+        await assertFails(as(BOB).doc('jobs/alice-job/private/details').get());
+        await assertFails(testEnv.unauthenticatedContext().firestore().doc('jobs/alice-job/private/details').get());
+    });
+
+    it('lets members add a job with its details in one batch, for their own jobs only', async () => {
+        const addWithDetails = (uid: string, username: string) => {
+            const db = as(uid);
+            const jobRef = db.collection('jobs').doc();
+            const batch = db.batch();
+            batch.set(jobRef, job(username));
+            batch.set(jobRef.collection('private').doc('details'), details);
+            return batch.commit();
+        };
+        await assertSucceeds(addWithDetails(ALICE, 'alice'));
+        await assertFails(addWithDetails(ALICE, 'bob'));
+        await assertFails(as(ALICE).doc('jobs/bob-job/private/details').set(details));
+        await assertSucceeds(as(ADMIN).doc('jobs/bob-job/private/details').set(details));
+    });
+
+    it('only takes notes and contacts in the details document', async () => {
+        await assertFails(as(ALICE).doc('jobs/alice-job/private/other').set(details));
+        await assertFails(as(ALICE).doc('jobs/alice-job/private/details').set({ ...details, status: 'Offer' }));
+    });
+
+    it('keeps notes and contacts off the public job document', async () => {
+        await assertFails(as(ALICE).collection('jobs').add({ ...job('alice'), notes: details.notes }));
+        await assertFails(as(ALICE).doc('jobs/alice-job').update({ contacts: details.contacts }));
+        await assertFails(as(ADMIN).doc('jobs/bob-job').update({ notes: details.notes }));
+    });
+
+    it('lets jobs saved before that keep their notes until they are moved', async () => {
+        await seedLegacyJob();
+        await assertSucceeds(as(ALICE).doc('jobs/legacy-job').update({ status: 'Interview' }));
+        await assertFails(as(ALICE).doc('jobs/legacy-job').update({ notes: 'Changed' }));
+
+        const db = as(ALICE);
+        const batch = db.batch();
+        batch.set(db.doc('jobs/legacy-job/private/details'), details, { merge: true });
+        batch.update(db.doc('jobs/legacy-job'), { notes: firebase.firestore.FieldValue.delete(), contacts: firebase.firestore.FieldValue.delete() });
+        await assertSucceeds(batch.commit());
+    });
+
+    it("lets members delete their own jobs' details with the job", async () => {
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc('jobs/alice-job/private/details').set(details));
+        await assertFails(as(BOB).doc('jobs/alice-job/private/details').delete());
+        const db = as(ALICE);
+        const batch = db.batch();
+        batch.delete(db.doc('jobs/alice-job/private/details'));
+        batch.delete(db.doc('jobs/alice-job'));
+        await assertSucceeds(batch.commit());
+    });
+
+    it('applies the same limits in groups', async () => {
+        await testEnv.withSecurityRulesDisabled(async context => {
+            await context.firestore().doc('groups/g1/jobs/alice-job').set(job('alice'));
+            await context.firestore().doc('groups/g1/jobs/alice-job/private/details').set(details);
+        });
+        await assertSucceeds(as(ALICE).doc('groups/g1/jobs/alice-job/private/details').get());
+        await assertSucceeds(as(ALICE).doc('groups/g1/jobs/alice-job/private/details').set({ notes: 'Changed' }));
+        await assertSucceeds(as(ADMIN).doc('groups/g1/jobs/alice-job/private/details').get());
+        await assertFails(as(BOB).doc('groups/g1/jobs/alice-job/private/details').get());
+        await assertFails(as(ALICE).collection('groups/g1/jobs').add({ ...job('alice'), notes: details.notes }));
+    });
+});
+
+describe('job counts', () => {
+    it('lets members set their own count in one write, e.g. after a recount', async () => {
+        await assertSucceeds(as(ALICE).doc('users/alice').update({ jobsApplied: 3 }));
+        await assertSucceeds(as(ALICE).doc('users/alice').update({ jobsApplied: 300 }));
+        await assertSucceeds(as(ADMIN).doc('users/alice').update({ jobsApplied: 0 }));
+    });
+
+    it('rejects counts that are not a number of jobs', async () => {
+        await assertFails(as(ALICE).doc('users/alice').update({ jobsApplied: -1 }));
+        await assertFails(as(ALICE).doc('users/alice').update({ jobsApplied: 'many' }));
+    });
+
+    it("keeps members to their own count and only the count", async () => {
+        await assertFails(as(ALICE).doc('users/bob').update({ jobsApplied: 2 }));
+        await assertFails(as(ALICE).doc('users/alice').update({ name: 'Alice' }));
+    });
+
+    it('applies the same limits in groups', async () => {
+        await assertSucceeds(as(ALICE).doc('groups/g1/users/alice').update({ jobsApplied: 10 }));
+        await assertFails(as(ALICE).doc('groups/g1/users/alice').update({ jobsApplied: -1 }));
+        await assertFails(as(ALICE).doc('groups/g1/users/bob').update({ jobsApplied: 1 }));
+    });
+
+    it('only lets group members start their own count at zero', async () => {
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc('groups/g1/users/alice').delete());
+        await assertFails(as(ALICE).collection('groups/g1/users').add({ username: 'alice', jobsApplied: 10 }));
+        await assertSucceeds(as(ALICE).collection('groups/g1/users').add({ username: 'alice', jobsApplied: 0 }));
+    });
+});
+
+describe('users', () => {
+    it('lets only admins add and delete users', async () => {
+        await assertFails(as(ALICE).collection('users').add({ username: 'carol', jobsApplied: 0 }));
+        await assertFails(as(ALICE).doc('users/bob').delete());
+        await assertSucceeds(as(ADMIN).collection('users').add({ username: 'carol', jobsApplied: 0 }));
+        await assertSucceeds(as(ADMIN).doc('users/bob').delete());
+    });
+});
+
+describe('snapshots', () => {
+    const periods: SnapshotPeriod[] = ['weekly', 'monthly', 'yearly'];
+    const current: Record<SnapshotPeriod, string> = {
+        weekly: getWeeklyPeriodKey(),
+        monthly: getMonthlyPeriodKey(),
+        yearly: getYearlyPeriodKey(),
+    };
+    // Two periods ahead, so the hour of slack around a boundary never lets it pass
+    const future = (period: SnapshotPeriod) => getNextPeriodKey(period, getNextPeriodKey(period, current[period]));
+
+    // A baseline as ensureSnapshot writes it
+    const baseline = (period: SnapshotPeriod, periodKey: string) => ({
+        period,
+        periodKey,
+        createdAt: new Date().toISOString(),
+        source: 'app',
+        scoringVersion: 1,
+        users: [snapshotUser('alice')],
+    });
+
+    it("lets any account capture the current period's missing baseline", async () => {
+        for (const period of periods) {
+            await assertSucceeds(as(ALICE).doc(`leaderboardSnapshots/${period}_${current[period]}`).set(baseline(period, current[period])));
+        }
+        await assertSucceeds(as(ALICE).doc(`groups/g1/leaderboardSnapshots/weekly_${current.weekly}`).set(baseline('weekly', current.weekly)));
+    });
+
+    it('rejects members capturing a future or past period', async () => {
+        for (const period of periods) {
+            await assertFails(as(ALICE).doc(`leaderboardSnapshots/${period}_${future(period)}`).set(baseline(period, future(period))));
+        }
+        await assertFails(as(ALICE).doc('leaderboardSnapshots/weekly_2025-W03').set(baseline('weekly', '2025-W03')));
+        await assertFails(as(ALICE).doc(`groups/g1/leaderboardSnapshots/weekly_${future('weekly')}`).set(baseline('weekly', future('weekly'))));
+    });
+
+    it('rejects forged baselines', async () => {
+        const id = `leaderboardSnapshots/weekly_${current.weekly}`;
+        // Filed under another period's ID
+        await assertFails(as(ALICE).doc(`leaderboardSnapshots/weekly_${future('weekly')}`).set(baseline('weekly', current.weekly)));
+        await assertFails(as(ALICE).doc(`leaderboardSnapshots/monthly_${current.weekly}`).set(baseline('weekly', current.weekly)));
+        await assertFails(as(ALICE).doc(id).set({ ...baseline('weekly', current.weekly), period: 'daily' }));
+        await assertFails(as(ALICE).doc(id).set({ ...baseline('weekly', current.weekly), users: { alice: snapshotUser('alice') } }));
+        await assertFails(as(ALICE).doc(id).set({ ...baseline('weekly', current.weekly), forged: true }));
+        await assertFails(as('stranger-uid').doc(id).set(baseline('weekly', current.weekly)));
+    });
+
+    it('lets admins write any period, e.g. when restoring', async () => {
+        await assertSucceeds(as(ADMIN).doc(`leaderboardSnapshots/weekly_${future('weekly')}`).set(baseline('weekly', future('weekly'))));
+        await assertSucceeds(as(ADMIN).doc('groups/g1/leaderboardSnapshots/weekly_2025-W03').set(baseline('weekly', '2025-W03')));
+    });
+
+    it("lets any account add users missing from the current period's baseline", async () => {
+        for (const path of [`leaderboardSnapshots/weekly_${current.weekly}`, `groups/g1/leaderboardSnapshots/weekly_${current.weekly}`]) {
+            await testEnv.withSecurityRulesDisabled(context => context.firestore().doc(path).set(baseline('weekly', current.weekly)));
+            await assertSucceeds(as(ALICE).doc(path).update({ users: [snapshotUser('alice'), snapshotUser('bob')] }));
+        }
+    });
+
+    it('never lets members change or drop baselines already taken', async () => {
+        const path = `leaderboardSnapshots/weekly_${current.weekly}`;
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc(path).set(baseline('weekly', current.weekly)));
+        await assertFails(as(ALICE).doc(path).update({ users: [{ ...snapshotUser('alice'), xp: 0 }, snapshotUser('bob')] }));
+        await assertFails(as(ALICE).doc(path).update({ users: [snapshotUser('bob')] }));
+        await assertFails(as(ALICE).doc(path).update({ users: [] }));
+        await assertFails(as(ALICE).doc(path).update({ users: [snapshotUser('alice'), snapshotUser('bob')], source: 'scheduler' }));
+        await assertFails(as('stranger-uid').doc(path).update({ users: [snapshotUser('alice'), snapshotUser('bob')] }));
+    });
+
+    it('leaves changing stored baselines to admins', async () => {
+        const users = [{ ...snapshotUser('alice'), xp: 0 }, snapshotUser('bob')];
+        // Past periods stay as they are, even for appending
+        await assertFails(as(ALICE).doc('leaderboardSnapshots/weekly_2026-W03').update({ users: [snapshotUser('alice'), snapshotUser('bob')] }));
+        await assertFails(as(ALICE).doc('leaderboardSnapshots/weekly_2026-W03').update({ users }));
+        await assertFails(as(ALICE).doc('leaderboardSnapshots/weekly_2026-W03').delete());
+        await assertSucceeds(as(ADMIN).doc('leaderboardSnapshots/weekly_2026-W03').update({ users }));
+        await assertSucceeds(as(ADMIN).doc('leaderboardSnapshots/weekly_2026-W03').delete());
+    });
+
+    it('leaves changing stored group baselines to group admins', async () => {
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc('groups/g1/leaderboardSnapshots/weekly_2026-W03').set({
+            period: 'weekly',
+            periodKey: '2026-W03',
+            createdAt: '2026-01-12T08:00:00.000Z',
+            users: [snapshotUser('alice')],
+        }));
+        const users = [snapshotUser('alice'), snapshotUser('bob')];
+        await assertFails(as(ALICE).doc('groups/g1/leaderboardSnapshots/weekly_2026-W03').update({ users }));
+        await assertSucceeds(as(ADMIN).doc('groups/g1/leaderboardSnapshots/weekly_2026-W03').update({ users }));
+    });
+});
+
+describe('stat history', () => {
+    it('lets members record only their own samples', async () => {
+        await assertSucceeds(as(ALICE).doc(`statHistory/alice_${TODAY}`).set(sample('alice')));
+        await assertFails(as(ALICE).doc(`statHistory/bob_${TODAY}`).set(sample('bob')));
+        await assertSucceeds(as(ALICE).doc(`groups/g1/statHistory/alice_${TODAY}`).set(sample('alice')));
+        await assertFails(as(ALICE).doc(`groups/g1/statHistory/bob_${TODAY}`).set(sample('bob')));
+    });
+
+    it('rejects members recording another day', async () => {
+        // Two days either way, so the hour of slack around midnight never lets it pass
+        for (const date of [addDaysToDayKey(TODAY, 2), addDaysToDayKey(TODAY, -2)]) {
+            await assertFails(as(ALICE).doc(`statHistory/alice_${date}`).set(sample('alice', date)));
+            await assertFails(as(ALICE).doc(`groups/g1/statHistory/alice_${date}`).set(sample('alice', date)));
+        }
+    });
+
+    it('rejects forged samples', async () => {
+        const id = `statHistory/alice_${TODAY}`;
+        await assertFails(as(ALICE).doc('statHistory/alice_2020-01-01').set(sample('alice')));
+        await assertFails(as(ALICE).doc(id).set({ ...sample('alice'), hard: -5, total: -3 }));
+        await assertFails(as(ALICE).doc(id).set({ ...sample('alice'), xp: '1000' }));
+        await assertFails(as(ALICE).doc(id).set({ ...sample('alice'), total: 300 }));
+        await assertFails(as(ALICE).doc(id).set({ ...sample('alice'), forged: true }));
+    });
+
+    it("lets admins record everyone's samples, for any day", async () => {
+        await assertSucceeds(as(ADMIN).doc(`statHistory/bob_${TODAY}`).set(sample('bob')));
+        await assertSucceeds(as(ADMIN).doc('statHistory/bob_2026-01-15').set(sample('bob', '2026-01-15')));
+        await assertSucceeds(as(ADMIN).doc(`groups/g1/statHistory/bob_${TODAY}`).set(sample('bob')));
+    });
+});
+
+describe('username claims', () => {
+    const link = (uid: string, username: string, account: object = { approved: false }) => {
+        const db = as(uid);
+        const batch = db.batch();
+        batch.set(db.doc(`accounts/${uid}`), { username, role: 'member', createdAt: '2026-01-15T20:00:00.000Z', ...account });
+        batch.set(db.doc(`usernameClaims/${username}`), { uid });
+        return batch.commit();
+    };
+
+    it('lets a new sign-in ask to link an unclaimed username', async () => {
+        await assertSucceeds(link('carol-uid', 'carol'));
+    });
+
+    it('rejects links that approve themselves', async () => {
+        await assertFails(link('carol-uid', 'carol', { approved: true }));
+        await assertFails(link('carol-uid', 'carol', {}));
+        await assertSucceeds(link('carol-uid', 'carol'));
+        await assertFails(as('carol-uid').doc('accounts/carol-uid').update({ approved: true }));
+    });
+
+    it("doesn't let a stranger act as a tracked member nobody claimed yet", async () => {
+        await testEnv.withSecurityRulesDisabled(context => context.firestore().doc('users/carol').set({ username: 'carol', jobsApplied: 0 }));
+        await assertSucceeds(link('stranger-uid', 'carol'));
+
+        await assertFails(as('stranger-uid').collection('jobs').add(job('carol')));
+        await assertFails(as('stranger-uid').doc('users/carol').update({ jobsApplied: 1 }));
+        await assertFails(as('stranger-uid').doc('groups/g1/members/stranger-uid').set({
+            username: 'carol',
+            role: 'member',
+            joinedAt: '2026-01-15T20:00:00.000Z',
+            inviteCode: INVITE_CODE,
+        }));
+
+        // Until an admin approves the link
+        await assertSucceeds(as(ADMIN).doc('accounts/stranger-uid').update({ approved: true }));
+        await assertSucceeds(as('stranger-uid').collection('jobs').add(job('carol')));
+    });
+
+    it("only records the sign-in's own email", async () => {
+        const withEmail = (email: string) => {
+            const db = testEnv.authenticatedContext('carol-uid', { email: 'carol@example.com' }).firestore();
+            const batch = db.batch();
+            batch.set(db.doc('accounts/carol-uid'), { username: 'carol', role: 'member', createdAt: '2026-01-15T20:00:00.000Z', email, approved: false });
+            batch.set(db.doc('usernameClaims/carol'), { uid: 'carol-uid' });
+            return batch.commit();
+        };
+        await assertFails(withEmail('admin@example.com'));
+        await assertSucceeds(withEmail('carol@example.com'));
+    });
+
+    it('rejects linking a username someone else claimed', async () => {
+        await assertFails(link('carol-uid', 'alice'));
+    });
+
+    it('rejects linking yourself as an admin', async () => {
+        await assertFails(link('carol-uid', 'carol', { role: 'admin', approved: false }));
+    });
+
+    it('rejects a claim that does not match your account', async () => {
+        await assertFails(as('carol-uid').doc('usernameClaims/carol').set({ uid: 'carol-uid' }));
+        await assertFails(as(ALICE).doc('usernameClaims/carol').set({ uid: ALICE }));
+    });
+
+    it('never moves a claim, and only its owner or an admin removes it', async () => {
+        await assertFails(as(BOB).doc('usernameClaims/alice').update({ uid: BOB }));
+        await assertFails(as(BOB).doc('usernameClaims/alice').delete());
+        await assertSucceeds(as(ALICE).doc('usernameClaims/alice').delete());
+        await assertSucceeds(as(ADMIN).doc('usernameClaims/bob').delete());
+    });
+});
+
+describe('groups', () => {
+    const createGroup = (extra: object = {}) => {
+        const db = as(BOB);
+        const batch = db.batch();
+        batch.set(db.doc('groups/g2'), { name: "Bob's group", createdAt: '2026-01-15T20:00:00.000Z', createdBy: BOB, ...extra });
+        batch.set(db.doc('groups/g2/private/invite'), { code: 'WXYZ6789' });
+        batch.set(db.doc('groupInvites/WXYZ6789'), { groupId: 'g2' });
+        batch.set(db.doc(`groups/g2/members/${BOB}`), { username: 'bob', role: 'admin', joinedAt: '2026-01-15T20:00:00.000Z' });
+        return batch.commit();
+    };
+
+    const join = (code: string) => as(BOB).doc(`groups/g1/members/${BOB}`).set({
+        username: 'bob',
+        role: 'member',
+        joinedAt: '2026-01-15T20:00:00.000Z',
+        inviteCode: code,
+    });
+
+    it('creates a group with its invite code kept private', async () => {
+        await assertSucceeds(createGroup());
+    });
+
+    it('rejects an invite code on the public group document', async () => {
+        await assertFails(createGroup({ inviteCode: 'WXYZ6789' }));
+    });
+
+    it('shows the invite code to group admins only', async () => {
+        await assertSucceeds(as(ADMIN).doc('groups/g1/private/invite').get());
+        await assertFails(as(ALICE).doc('groups/g1/private/invite').get());
+        await assertFails(testEnv.unauthenticatedContext().firestore().doc('groups/g1/private/invite').get());
+    });
+
+    it('never lists invite codes', async () => {
+        await assertFails(testEnv.unauthenticatedContext().firestore().collection('groupInvites').get());
+        await assertSucceeds(testEnv.unauthenticatedContext().firestore().doc(`groupInvites/${INVITE_CODE}`).get());
+    });
+
+    it('keeps member documents, with the code used to join, away from others', async () => {
+        await assertSucceeds(as(ALICE).doc(`groups/g1/members/${ALICE}`).get());
+        await assertSucceeds(as(ADMIN).doc(`groups/g1/members/${ALICE}`).get());
+        await assertFails(as(BOB).doc(`groups/g1/members/${ALICE}`).get());
+        await assertFails(testEnv.unauthenticatedContext().firestore().collection('groups/g1/members').get());
+    });
+
+    it('lets admins remove a member, who then loses write access', async () => {
+        await assertFails(as(BOB).doc(`groups/g1/members/${ALICE}`).delete());
+        await assertSucceeds(as(ADMIN).doc(`groups/g1/members/${ALICE}`).delete());
+        await assertFails(as(ALICE).collection('groups/g1/jobs').add(job('alice')));
+    });
+
+    it('lets people join with the right invite code only', async () => {
+        await assertFails(join('WRONG234'));
+        await assertSucceeds(join(INVITE_CODE));
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Snapshot integrity tests. Pure logic, so they run without the emulators:
+ * `npm run test:unit`.
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LeaderboardSnapshot, UserStats } from '../src/types';
+import { checkSnapshotIntegrity } from '../src/utils/integrityUtils';
+
+const counts = (easy: number, medium: number, hard: number) => ({ jobsApplied: 0, easy, medium, hard, total: easy + medium + hard, xp: 0 });
+
+const snapshot = (periodKey: string, createdAt: string, solved: [number, number, number]): LeaderboardSnapshot => ({
+    id: `weekly_${periodKey}`,
+    period: 'weekly',
+    periodKey,
+    createdAt,
+    users: [{ username: 'alice', ...counts(...solved) }],
+});
+
+const live = (solved: [number, number, number], error?: string): UserStats => ({
+    username: 'alice',
+    rank: 1,
+    updatedAt: '2026-02-01T00:00:00.000Z',
+    error,
+    ...counts(...solved),
+});
+
+const W03 = snapshot('2026-W03', '2026-01-12T08:00:00.000Z', [10, 5, 1]);
+const W04 = snapshot('2026-W04', '2026-01-19T08:00:00.000Z', [12, 6, 1]);
+
+describe('checkSnapshotIntegrity', () => {
+    it('accepts baselines that only grow', () => {
+        assert.deepEqual(checkSnapshotIntegrity([W03, W04], [live([15, 7, 2])]), []);
+    });
+
+    it('flags all zeros after a non-zero baseline', () => {
+        const zeroed = snapshot('2026-W04', '2026-01-19T08:00:00.000Z', [0, 0, 0]);
+        const issues = checkSnapshotIntegrity([W03, zeroed], [live([15, 7, 2])]);
+        assert.deepEqual(issues.map(i => [i.snapshotId, i.issue]), [['weekly_2026-W04', 'zeroed']]);
+        assert.match(issues[0].detail, /after 16 solved on 2026-01-12/);
+    });
+
+    it('flags an all-zero first baseline when later ones are not', () => {
+        const zeroed = snapshot('2026-W02', '2026-01-05T08:00:00.000Z', [0, 0, 0]);
+        const issues = checkSnapshotIntegrity([zeroed, W03], []);
+        assert.deepEqual(issues.map(i => [i.snapshotId, i.issue]), [['weekly_2026-W02', 'zeroed']]);
+        assert.match(issues[0].detail, /but 16 solved on 2026-01-12/);
+    });
+
+    it('flags an all-zero only baseline when the live count is not', () => {
+        const zeroed = snapshot('2026-W03', '2026-01-12T08:00:00.000Z', [0, 0, 0]);
+        assert.deepEqual(checkSnapshotIntegrity([zeroed], [live([3, 0, 0])]).map(i => i.issue), ['zeroed']);
+    });
+
+    it('leaves zeros alone while everything is zero, or the live fetch failed', () => {
+        const zeroed = snapshot('2026-W03', '2026-01-12T08:00:00.000Z', [0, 0, 0]);
+        assert.deepEqual(checkSnapshotIntegrity([zeroed], [live([0, 0, 0])]), []);
+        assert.deepEqual(checkSnapshotIntegrity([zeroed], [live([3, 0, 0], 'rate limited')]), []);
+    });
+
+    it('flags baselines above a later one or the live count', () => {
+        const issues = checkSnapshotIntegrity([W04], [live([10, 5, 1])]);
+        assert.deepEqual(issues.map(i => i.issue), ['decreasing']);
+    });
+
+    it('flags totals that are not easy + medium + hard', () => {
+        const broken = { ...W03, users: [{ ...W03.users[0], total: 99 }] };
+        assert.deepEqual(checkSnapshotIntegrity([broken], []).map(i => i.issue), ['inconsistent-total']);
+    });
+});